@@ -5,9 +5,20 @@ import L from 'leaflet';
 import SearchBar from './components/SearchBar';
 import VehiclePopup from './components/VehiclePopup';
 import VehicleSearch from './components/VehicleSearch';
-import { slService, LineManifestEntry } from './services/slService';
-import { SLVehicle, SLLineRoute, SearchResult, SLStop, HistoryPoint } from './types';
-import { RefreshCw, Map as MapIcon, AlertTriangle, MapPin, X } from 'lucide-react';
+import ServiceAlertList from './components/ServiceAlertList';
+import DepartureBoard from './components/DepartureBoard';
+import TransportIcon from './components/TransportIcon';
+import ReplayPanel from './components/ReplayPanel';
+import LineStatsPanel from './components/LineStatsPanel';
+import VehicleDayPanel from './components/VehicleDayPanel';
+import { slService, LineManifestEntry, getPredictionText, getDelayText, selectLineVariant, findTripVariant } from './services/slService';
+import { VehicleFilter } from './services/vehicleBuilder';
+import { RouteTrack, TrailPosition, buildRouteTrack, projectOntoTrack, pointAlongTrack, movePoint, interpolateTrail } from './services/routeGeometry';
+import { computeHeadwaysPerTrack } from './services/headway';
+import { buildStation } from './services/stations';
+import { startOfServiceDay } from './services/serviceCalendar';
+import { SLVehicle, SLLineRoute, SearchResult, SLStation, HistoryPoint, ServiceAlert, TransportMode, StopTimePrediction, CancelledTrip, ReplayTrip, StopPassage, VehicleDayTrip, HeadwayStatus, VehicleHeadway } from './types';
+import { RefreshCw, Map as MapIcon, AlertTriangle, MapPin, X, Ban, History, BarChart3, Download } from 'lucide-react';
 
 // Fix för Leaflet ikoner
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -23,6 +34,35 @@ const DEFAULT_VIEW: { center: [number, number]; zoom: number; bounds?: L.LatLngB
   bounds: undefined
 };
 
+// Störningar uppdateras mer sällan än fordonspositioner
+const ALERT_REFRESH_MS = 60000;
+
+// Flödet räknas som fördröjt om FeedHeader.timestamp är äldre än så här
+const FEED_DELAYED_MS = 60000;
+// Valbara gränser för när ett fordon som slutat rapportera räknas som inaktuellt
+const STALE_THRESHOLD_OPTIONS_MIN = [1, 2, 5, 10];
+const DEFAULT_STALE_THRESHOLD_MIN = 2;
+
+// Prognoser för vald resa hämtas om med det här intervallet
+const PREDICTION_REFRESH_MS = 15000;
+// Antal kommande hållplatser som alltid visar sin prognos på kartan
+const PINNED_PREDICTIONS = 3;
+
+// Färg på linjesträckan mellan två fordon beroende på avståndet
+const HEADWAY_COLORS: Record<HeadwayStatus, string> = { bunched: '#dc2626', normal: '#10b981', gap: '#f59e0b' };
+
+const TRANSPORT_MODES: TransportMode[] = ['Buss', 'Tunnelbana', 'Spårvagn', 'Pendeltåg', 'Tåg', 'Båt'];
+
+// Markörform och färg per trafikslag
+const MODE_MARKER_STYLES: Record<TransportMode, { path: string; fill: string; label: string }> = {
+  'Buss': { path: 'M12 2L4 21L12 17L20 21L12 2Z', fill: '#3B82F6', label: '#2563eb' },
+  'Tunnelbana': { path: 'M12 2L19 9V20C19 21 18 22 17 22H7C6 22 5 21 5 20V9L12 2Z', fill: '#DC2626', label: '#b91c1c' },
+  'Spårvagn': { path: 'M12 2L19 12L12 22L5 12L12 2Z', fill: '#EA580C', label: '#c2410c' },
+  'Pendeltåg': { path: 'M12 1L17 7V22H7V7L12 1Z', fill: '#DB2777', label: '#be185d' },
+  'Tåg': { path: 'M12 1L17 7V22H7V7L12 1Z', fill: '#7C3AED', label: '#6d28d9' },
+  'Båt': { path: 'M12 2L18 10L17 20C17 21 16 22 15 22H9C8 22 7 21 7 20L6 10L12 2Z', fill: '#0891B2', label: '#0e7490' },
+};
+
 interface AutoOpenMarkerProps {
   position: [number, number];
   stopId: string;
@@ -47,18 +87,98 @@ const AutoOpenMarker: React.FC<AutoOpenMarkerProps> = ({ position, stopId, child
   );
 };
 
+// Animering mellan positionsuppdateringar
+const ANIMATION_DURATION_MS = 2500;
+const MAX_EXTRAPOLATION_MS = 10000;
+// Hur långt från linjen en GPS-punkt får ligga för att fästas på den
+const SNAP_DISTANCE_M = 40;
+// Längre hopp längs linjen än så animeras rakt istället (t.ex. ny resa)
+const MAX_TRACK_JUMP_M = 2000;
+// Rutnät (grader) som kartutsnittet avrundas till innan det skickas som filter till servern
+const BBOX_GRID_DEG = 0.02;
+
+interface AnimatedPosition {
+  lat: number;
+  lng: number;
+  along?: number; // meter längs linjen om positionen är fäst på den
+}
+
+// Flyttar markören mjukt mot varje ny position, längs linjens form om fordonet kör på den,
+// och gissar vidare med hastighet och kurs tills nästa uppdatering kommer.
+const useAnimatedVehiclePosition = (markerRef: React.RefObject<L.Marker>, vehicle: SLVehicle, track: RouteTrack | null) => {
+  const displayRef = useRef<AnimatedPosition | null>(null);
+
+  useEffect(() => {
+    const snapped = track ? projectOntoTrack(track, vehicle.lat, vehicle.lng) : null;
+    const onTrack = snapped && snapped.offset <= SNAP_DISTANCE_M ? snapped : null;
+    const target: AnimatedPosition = onTrack
+      ? { lat: onTrack.point[0], lng: onTrack.point[1], along: onTrack.along }
+      : { lat: vehicle.lat, lng: vehicle.lng };
+    const from = displayRef.current || target;
+
+    const followTrack = track && onTrack && from.along !== undefined && target.along !== undefined &&
+      target.along >= from.along && target.along - from.along < MAX_TRACK_JUMP_M;
+    const speedMs = vehicle.speed / 3.6;
+    const startedAt = performance.now();
+
+    const positionAt = (elapsed: number): AnimatedPosition => {
+      if (elapsed < ANIMATION_DURATION_MS) {
+        const t = elapsed / ANIMATION_DURATION_MS;
+        if (followTrack) {
+          const along = (from.along as number) + ((target.along as number) - (from.along as number)) * t;
+          const [lat, lng] = pointAlongTrack(track as RouteTrack, along);
+          return { lat, lng, along };
+        }
+        return { lat: from.lat + (target.lat - from.lat) * t, lng: from.lng + (target.lng - from.lng) * t };
+      }
+
+      const extra = speedMs * Math.min(elapsed - ANIMATION_DURATION_MS, MAX_EXTRAPOLATION_MS) / 1000;
+      if (track && target.along !== undefined) {
+        const along = Math.min(target.along + extra, track.length);
+        const [lat, lng] = pointAlongTrack(track, along);
+        return { lat, lng, along };
+      }
+      const [lat, lng] = movePoint(target.lat, target.lng, vehicle.bearing, extra);
+      return { lat, lng };
+    };
+
+    let frame: number | null = null;
+    const step = () => {
+      const elapsed = performance.now() - startedAt;
+      const pos = positionAt(elapsed);
+      displayRef.current = pos;
+      markerRef.current?.setLatLng([pos.lat, pos.lng]);
+
+      const done = elapsed >= ANIMATION_DURATION_MS && (speedMs < 0.5 || elapsed >= ANIMATION_DURATION_MS + MAX_EXTRAPOLATION_MS);
+      frame = done ? null : requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [vehicle.lat, vehicle.lng, vehicle.speed, vehicle.bearing, track]);
+};
+
 interface VehicleMarkerProps {
   vehicle: SLVehicle;
   lineShortName: string;
   isSelected: boolean;
+  isStale: boolean;
+  track: RouteTrack | null;
   onSelect: (id: string) => void;
   onDeselect: () => void;
+  onShowDay: (id: string) => void;
+  headway?: VehicleHeadway;
 }
 
 // Komponent för fordon som ser till att popupen stannar öppen om fordonet är valt
-const VehicleMarker: React.FC<VehicleMarkerProps> = ({ vehicle, lineShortName, isSelected, onSelect, onDeselect }) => {
+const VehicleMarker: React.FC<VehicleMarkerProps> = ({ vehicle, lineShortName, isSelected, isStale, track, onSelect, onDeselect, onShowDay, headway }) => {
   const markerRef = useRef<L.Marker>(null);
-  const icon = useMemo(() => createVehicleIcon(vehicle.bearing, lineShortName), [vehicle.bearing, lineShortName]);
+  // Positionen styrs av animeringen, så Marker får bara startpositionen
+  const [initialPosition] = useState<[number, number]>([vehicle.lat, vehicle.lng]);
+  useAnimatedVehiclePosition(markerRef, vehicle, track);
+  const icon = useMemo(() => createVehicleIcon(vehicle.bearing, lineShortName, vehicle.type, isStale), [vehicle.bearing, lineShortName, vehicle.type, isStale]);
 
   useEffect(() => {
     // Om fordonet är valt, se till att popupen är öppen även när positionen uppdateras
@@ -72,7 +192,7 @@ const VehicleMarker: React.FC<VehicleMarkerProps> = ({ vehicle, lineShortName, i
   return (
     <Marker 
       ref={markerRef}
-      position={[vehicle.lat, vehicle.lng]} 
+      position={initialPosition} 
       icon={icon}
       eventHandlers={{
         click: () => onSelect(vehicle.id),
@@ -86,22 +206,50 @@ const VehicleMarker: React.FC<VehicleMarkerProps> = ({ vehicle, lineShortName, i
       }}
     >
       <Popup className="custom-popup" autoPan={false}>
-        <VehiclePopup vehicle={vehicle} lineShortName={lineShortName} />
+        <VehiclePopup vehicle={vehicle} lineShortName={lineShortName} isStale={isStale} headway={headway} onShowDay={() => onShowDay(vehicle.id)} />
       </Popup>
     </Marker>
   );
 };
 
-const createVehicleIcon = (bearing: number, lineShortName: string) => {
+interface ReplayVehicleMarkerProps {
+  trip: ReplayTrip;
+  position: TrailPosition;
+  lineShortName: string;
+  mode: TransportMode;
+}
+
+// Fordon i uppspelningsläget: positionen räknas fram ur det sparade spåret
+const ReplayVehicleMarker: React.FC<ReplayVehicleMarkerProps> = ({ trip, position, lineShortName, mode }) => {
+  const bearing = Math.round(position.bearing);
+  const icon = useMemo(() => createVehicleIcon(bearing, lineShortName, mode, false), [bearing, lineShortName, mode]);
+  const delayMin = position.delay !== undefined ? Math.round(position.delay / 60) : null;
+
+  return (
+    <Marker position={[position.lat, position.lng]} icon={icon}>
+      <Tooltip direction="top" offset={[0, -18]} opacity={1}>
+        <span className="text-xs">
+          <span className="font-bold">Vagn {trip.vehicleId.slice(-4)}</span>
+          {delayMin !== null && ` • ${delayMin === 0 ? 'I tid' : `${delayMin > 0 ? '+' : ''}${delayMin} min`}`}
+        </span>
+      </Tooltip>
+    </Marker>
+  );
+};
+
+const createVehicleIcon = (bearing: number, lineShortName: string, mode: TransportMode, isStale: boolean) => {
   const displayName = lineShortName || '?';
+  const style = MODE_MARKER_STYLES[mode] || MODE_MARKER_STYLES['Buss'];
+  // Fordon som slutat rapportera tonas ned och visas i gråskala
+  const staleStyle = isStale ? 'opacity: 0.45; filter: grayscale(1);' : '';
   return L.divIcon({
     className: 'custom-vehicle-icon',
     html: `
-      <div style="transform: rotate(${bearing}deg); width: 34px; height: 34px; display: flex; align-items: center; justify-content: center; position: relative;">
+      <div style="transform: rotate(${bearing}deg); width: 34px; height: 34px; display: flex; align-items: center; justify-content: center; position: relative; ${staleStyle}">
         <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" style="width: 100%; height: 100%; filter: drop-shadow(0 2px 4px rgba(0,0,0,0.4));">
-          <path d="M12 2L4 21L12 17L20 21L12 2Z" fill="#3B82F6" stroke="white" stroke-width="2" stroke-linejoin="round"/>
+          <path d="${style.path}" fill="${style.fill}" stroke="white" stroke-width="2" stroke-linejoin="round"/>
         </svg>
-        <div style="position: absolute; top: -15px; left: 50%; transform: translateX(-50%) rotate(${-bearing}deg); background: #2563eb; color: white; padding: 1px 5px; border-radius: 3px; font-size: 9px; font-weight: 800; white-space: nowrap; box-shadow: 0 2px 4px rgba(0,0,0,0.2);">
+        <div style="position: absolute; top: -15px; left: 50%; transform: translateX(-50%) rotate(${-bearing}deg); background: ${style.label}; color: white; padding: 1px 5px; border-radius: 3px; font-size: 9px; font-weight: 800; white-space: nowrap; box-shadow: 0 2px 4px rgba(0,0,0,0.2);">
           ${displayName}
         </div>
       </div>
@@ -159,9 +307,13 @@ const App: React.FC = () => {
   const [loadingMessage, setLoadingMessage] = useState('Startar applikationen...');
   const [isApiConfigured, setIsApiConfigured] = useState<boolean | null>(null);
   const [vehicles, setVehicles] = useState<SLVehicle[]>([]);
+  const [totalVehicles, setTotalVehicles] = useState(0);
+  const [feedTimestamp, setFeedTimestamp] = useState<number | null>(null);
+  // Tickar så att flödets och fordonens ålder räknas om även utan ny data
+  const [now, setNow] = useState(Date.now());
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(null);
   const [activeRoute, setActiveRoute] = useState<SLLineRoute | null>(null);
-  const [activeStop, setActiveStop] = useState<SLStop | null>(null);
+  const [activeStop, setActiveStop] = useState<SLStation | null>(null);
   const [mapConfig, setMapConfig] = useState(DEFAULT_VIEW);
   const [routeManifest, setRouteManifest] = useState<Map<string, LineManifestEntry>>(new Map());
   const [liveStatus, setLiveStatus] = useState<'loading' | 'ok' | 'error'>('loading');
@@ -171,6 +323,11 @@ const App: React.FC = () => {
   const [showAllVehicles, setShowAllVehicles] = useState(false);
   // Toggle state: default true för att visa historik
   const [showHistory, setShowHistory] = useState(true);
+  // Trafikslag som användaren har filtrerat bort
+  const [hiddenModes, setHiddenModes] = useState<Set<TransportMode>>(new Set());
+  // Inaktuella fordon: efter hur många minuter utan rapport, och om de ska döljas helt
+  const [staleThresholdMin, setStaleThresholdMin] = useState(DEFAULT_STALE_THRESHOLD_MIN);
+  const [hideStale, setHideStale] = useState(false);
   
   // Ny state för att hålla reda på vad som syns på kartan
   const [visibleBounds, setVisibleBounds] = useState<L.LatLngBounds | null>(null);
@@ -178,6 +335,32 @@ const App: React.FC = () => {
   // Ny state för fordonshistorik
   const [historyPath, setHistoryPath] = useState<HistoryPoint[]>([]);
 
+  // Prognoser (StopTimeUpdates) för det valda fordonets resa
+  const [tripPredictions, setTripPredictions] = useState<StopTimePrediction[]>([]);
+  // Hållplatspassager som servern registrerat för samma resa
+  const [tripPassages, setTripPassages] = useState<StopPassage[]>([]);
+
+  // Aktiva störningar (Service Alerts)
+  const [serviceAlerts, setServiceAlerts] = useState<ServiceAlert[]>([]);
+  const [showRouteAlerts, setShowRouteAlerts] = useState(false);
+
+  // Inställda resor på den valda linjen
+  const [cancelledTrips, setCancelledTrips] = useState<CancelledTrip[]>([]);
+  const [showCancelledTrips, setShowCancelledTrips] = useState(false);
+
+  // Uppspelning av sparade spår för den valda linjen
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [replayTrips, setReplayTrips] = useState<ReplayTrip[]>([]);
+  const [replayTime, setReplayTime] = useState<number | null>(null);
+
+  // Punktlighetsstatistik för den valda linjen
+  const [showLineStats, setShowLineStats] = useState(false);
+
+  // Alla resor ett fordon kört idag (öppnas från fordonets popup)
+  const [dayVehicleId, setDayVehicleId] = useState<string | null>(null);
+  const [vehicleDayTrips, setVehicleDayTrips] = useState<VehicleDayTrip[]>([]);
+  const [selectedDayTripId, setSelectedDayTripId] = useState<string | null>(null);
+
   useEffect(() => {
     const init = async () => {
       setIsApiConfigured(slService.areKeysConfigured());
@@ -191,25 +374,66 @@ const App: React.FC = () => {
     init();
   }, []);
 
-  // Live Update Loop (Display only)
+  // Be bara servern om de fordon som faktiskt ska ritas ut. Filtret hålls som en sträng så att
+  // strömmen bara startas om när filtret ändras, inte vid varje panorering av kartan.
+  const vehicleFilterKey = useMemo(() => {
+    const filter: VehicleFilter = {};
+    if (!visibleBounds || (!activeRoute && !showAllVehicles) || isReplayOpen) {
+      filter.limit = 0;
+    } else if (activeRoute && !showAllVehicles) {
+      // Hela linjen hämtas, turtätheten behöver även fordon utanför kartbilden
+      filter.routeId = activeRoute.id;
+    } else {
+      // Avrundat utåt till ett rutnät, så små förflyttningar ger samma område
+      const padded = visibleBounds.pad(0.5);
+      const snap = (value: number, round: (v: number) => number) => Number((round(value / BBOX_GRID_DEG) * BBOX_GRID_DEG).toFixed(4));
+      filter.bbox = [
+        snap(padded.getWest(), Math.floor),
+        snap(padded.getSouth(), Math.floor),
+        snap(padded.getEast(), Math.ceil),
+        snap(padded.getNorth(), Math.ceil)
+      ];
+    }
+    return JSON.stringify(filter);
+  }, [visibleBounds, activeRoute?.id, showAllVehicles, isReplayOpen]);
+
+  // Live-uppdateringar (SSE med polling som reserv)
   useEffect(() => {
     if (loading || !isApiConfigured) {
       setVehicles([]);
       return;
     }
 
-    const fetchLive = async () => {
-      try {
-        const data = await slService.getLiveVehicles(null);
-        setVehicles(data);
-        if (liveStatus !== 'ok') setLiveStatus('ok');
-      } catch(e) {
-        setLiveStatus('error');
-      }
+    const filter: VehicleFilter = JSON.parse(vehicleFilterKey);
+    const unsubscribe = slService.subscribeVehicles(
+      filter,
+      (snapshot) => {
+        setVehicles(snapshot.vehicles);
+        setTotalVehicles(snapshot.total);
+        setFeedTimestamp(snapshot.feedTimestamp ?? null);
+        setLiveStatus('ok');
+      },
+      () => setLiveStatus('error')
+    );
+    return unsubscribe;
+  }, [loading, isApiConfigured, vehicleFilterKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Störningsinformation
+  useEffect(() => {
+    if (loading || !isApiConfigured) return;
+
+    const fetchAlerts = async () => {
+      const alerts = await slService.getServiceAlerts();
+      setServiceAlerts(alerts);
     };
 
-    fetchLive();
-    const interval = setInterval(fetchLive, 2500); 
+    fetchAlerts();
+    const interval = setInterval(fetchAlerts, ALERT_REFRESH_MS);
     return () => clearInterval(interval);
   }, [loading, isApiConfigured]);
 
@@ -228,8 +452,97 @@ const App: React.FC = () => {
       }
   }, [selectedVehicleId, vehicles]);
 
+  const selectedTripId = useMemo(
+    () => vehicles.find(v => v.id === selectedVehicleId)?.tripId || null,
+    [vehicles, selectedVehicleId]
+  );
+
+  // Hämta prognoser för hållplatserna längs det valda fordonets resa
+  useEffect(() => {
+    if (!selectedTripId) {
+      setTripPredictions([]);
+      setTripPassages([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchPredictions = async () => {
+      const [predictions, passages] = await Promise.all([
+        slService.getTripPredictions(selectedTripId),
+        slService.getTripPassages(selectedTripId)
+      ]);
+      if (!cancelled) {
+        setTripPredictions(predictions);
+        setTripPassages(passages);
+      }
+    };
+
+    fetchPredictions();
+    const interval = setInterval(fetchPredictions, PREDICTION_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selectedTripId]);
+
+  // Inställda resor hämtas ur samma TripUpdates som prognoserna
+  useEffect(() => {
+    if (!activeRoute || !isApiConfigured) {
+      setCancelledTrips([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchCancelledTrips = async () => {
+      const trips = await slService.getCancelledTrips(activeRoute);
+      if (!cancelled) setCancelledTrips(trips);
+    };
+
+    fetchCancelledTrips();
+    const interval = setInterval(fetchCancelledTrips, PREDICTION_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [activeRoute, isApiConfigured]);
+
+  // Uppspelningen hör till en linje och nollställs när linjen byts (men inte vid byte av variant)
+  useEffect(() => {
+    setIsReplayOpen(false);
+    setReplayTrips([]);
+    setReplayTime(null);
+    setShowLineStats(false);
+  }, [activeRoute?.id]);
+
+  const replayPositions = useMemo(() => {
+    if (!isReplayOpen || replayTime === null) return [];
+    return replayTrips
+      .map(trip => ({ trip, position: interpolateTrail(trip.path, replayTime) }))
+      .filter((r): r is { trip: ReplayTrip; position: TrailPosition } => r.position !== null);
+  }, [isReplayOpen, replayTrips, replayTime]);
+
+  const predictionsByStop = useMemo(() => {
+    const byStop = new Map<string, StopTimePrediction>();
+    tripPredictions.forEach(p => { if (p.stopId) byStop.set(p.stopId, p); });
+    return byStop;
+  }, [tripPredictions]);
+
+  // De närmast kommande hållplatserna får en permanent etikett på kartan
+  const pinnedPredictionStops = useMemo(() => {
+    const now = Date.now();
+    return new Set(
+      tripPredictions
+        .filter(p => p.stopId && (p.arrivalTime ?? p.departureTime ?? 0) >= now)
+        .sort((a, b) => (a.arrivalTime ?? a.departureTime ?? 0) - (b.arrivalTime ?? b.departureTime ?? 0))
+        .slice(0, PINNED_PREDICTIONS)
+        .map(p => p.stopId as string)
+    );
+  }, [tripPredictions]);
+
   const handleClear = () => {
     setActiveRoute(null);
+    setShowRouteAlerts(false);
+    setShowCancelledTrips(false);
     setActiveStop(null);
     setSelectedVehicleId(null);
     setHistoryPath([]);
@@ -252,6 +565,7 @@ const App: React.FC = () => {
       if (route && route.path.length > 0) {
         setActiveRoute(route);
         setActiveStop(null);
+        setShowRouteAlerts(false);
         const bounds = L.latLngBounds(route.path);
         setMapConfig({ 
           center: [bounds.getCenter().lat, bounds.getCenter().lng],
@@ -260,18 +574,17 @@ const App: React.FC = () => {
         });
       }
     } else {
-      let stop = null;
-      if (activeRoute) {
-        stop = activeRoute.stops.find(s => s.name.toLowerCase() === result.title.toLowerCase());
-      }
-      if (!stop) {
-        stop = await slService.getStopInfo(result.id);
+      // En station väljer alla sina lägen
+      let station = await slService.getStation([result.id, ...(result.platforms || []).map(p => p.id)]);
+      if (!station && activeRoute) {
+        const stop = activeRoute.stops.find(s => s.name.toLowerCase() === result.title.toLowerCase());
+        if (stop) station = buildStation([stop]);
       }
-      if (stop) {
-        setActiveStop(stop);
+      if (station) {
+        setActiveStop(station);
         setMapConfig({ 
-          center: [stop.lat, stop.lng], 
-          zoom: 14, 
+          center: [station.lat, station.lng], 
+          zoom: station.platforms.length > 1 ? 16 : 14, 
           bounds: undefined 
         });
       }
@@ -281,7 +594,7 @@ const App: React.FC = () => {
   const handleVehicleFound = async (vehicle: SLVehicle, routeId: string) => {
     const route = await slService.getLineRoute(routeId);
     if (route && route.path.length > 0) {
-      setActiveRoute(route);
+      setActiveRoute(showVehicleVariant(route, vehicle));
       setActiveStop(null);
       setSelectedVehicleId(vehicle.id);
       setMapConfig({
@@ -292,15 +605,43 @@ const App: React.FC = () => {
     }
   };
 
+  const feedAgeMs = feedTimestamp ? Math.max(0, now - feedTimestamp) : null;
+  const isFeedDelayed = feedAgeMs !== null && feedAgeMs > FEED_DELAYED_MS;
+
+  const getFeedAgeText = () => {
+    if (feedAgeMs === null) return null;
+    const seconds = Math.round(feedAgeMs / 1000);
+    if (seconds < 60) return `Uppdaterad för ${seconds} s sedan`;
+    return `Uppdaterad för ${Math.round(seconds / 60)} min sedan`;
+  };
+
+  const isVehicleStale = (v: SLVehicle) =>
+    v.lastReport !== undefined && now - v.lastReport > staleThresholdMin * 60000;
+
+  // Linjens resor enligt trafikkalendern, räknas om när trafikdygnet byts
+  const serviceDay = startOfServiceDay(now);
+  const lineServiceTrips = useMemo(
+    () => activeRoute ? slService.getLineServiceTrips(activeRoute, serviceDay) : new Set<string>(),
+    [activeRoute, serviceDay]
+  );
+
+  // Fordonen på den valda linjen. Resor i tidtabellen räknas bara om de går i dag enligt
+  // trafikkalendern, resor som saknas i tidtabellen (extraturer) räknas om linjen stämmer.
+  const lineVehicles = useMemo(() => {
+    if (!activeRoute) return [];
+    return vehicles.filter(v => lineServiceTrips.has(v.tripId) || (v.line === activeRoute.id && !activeRoute.schedule?.[v.tripId]));
+  }, [vehicles, activeRoute, lineServiceTrips]);
+
   const getStatusText = () => {
     if (!isApiConfigured) return "API ej konfigurerad";
     
     if (liveStatus === 'loading') return "Startar sökning...";
     if (liveStatus === 'error') return "Anslutningsfel";
+    if (isReplayOpen) return `Uppspelning: ${replayPositions.length} fordon`;
+    if (isFeedDelayed) return `Data fördröjd (${Math.round((feedAgeMs as number) / 60000)} min)`;
 
     if (activeRoute && !showAllVehicles) {
-       const routeVehicles = vehicles.filter(v => v.line === activeRoute.id);
-       return `${routeVehicles.length} fordon på linje ${activeRoute.line}`;
+       return `${lineVehicles.length} fordon på linje ${activeRoute.line}`;
     }
     
     if (activeRoute && showAllVehicles) {
@@ -308,15 +649,19 @@ const App: React.FC = () => {
     }
 
     if (showAllVehicles) {
-        return `${vehicles.length} fordon i trafik`;
+        return `${totalVehicles} fordon i trafik`;
     }
     
     // Default fallback utan "Server-läge" texten
-    return `${vehicles.length} fordon i realtid`;
+    return `${totalVehicles} fordon i realtid`;
   };
 
   const getLineDisplayName = () => {
     if (!activeRoute) return "";
+    // Visa den valda variantens ändhållplatser, manifestet beskriver bara huvudvarianten
+    if (activeRoute.variants.length > 1 && activeRoute.stops.length >= 2) {
+      return `Linje ${activeRoute.line} ${activeRoute.stops[0].name} – ${activeRoute.stops[activeRoute.stops.length - 1].name}`;
+    }
     const manifestEntry = routeManifest.get(activeRoute.id);
     if (manifestEntry) {
       return `Linje ${activeRoute.line} ${manifestEntry.from} – ${manifestEntry.to}`;
@@ -324,19 +669,81 @@ const App: React.FC = () => {
     return `Linje ${activeRoute.line}`;
   };
 
-  const visibleVehicles = useMemo(() => {
-    let filtered = vehicles;
+  const activeTrack = useMemo(() => activeRoute ? buildRouteTrack(activeRoute.path) : null, [activeRoute]);
+  // Spår för linjens alla varianter, så att varje fordon animeras längs den körväg dess resa följer
+  const variantTracks = useMemo(
+    () => new Map((activeRoute?.variants ?? []).map(v => [v.id, buildRouteTrack(v.path)])),
+    [activeRoute?.variants]
+  );
 
-    if (activeRoute && !showAllVehicles) {
-        filtered = vehicles.filter(v => v.line === activeRoute.id || activeRoute.trip_ids.includes(v.tripId));
-    } else if (!showAllVehicles) {
-        return [];
-    }
+  const getVehicleTrack = (v: SLVehicle): RouteTrack | null => {
+    if (!activeRoute || v.line !== activeRoute.id) return null;
+    const variant = findTripVariant(activeRoute, v.tripId, v.directionId);
+    return (variant && variantTracks.get(variant.id)) || activeTrack;
+  };
+
+  // Visa den variant fordonets resa följer
+  const showVehicleVariant = (route: SLLineRoute, vehicle: SLVehicle) => {
+    const variant = findTripVariant(route, vehicle.tripId, vehicle.directionId);
+    return variant && variant.id !== route.variantId ? selectLineVariant(route, variant.id) : route;
+  };
+
+  // Avstånd mellan linjens fordon i samma riktning, med ihopklumpning och stora luckor markerade.
+  // Fordonen grupperas per variant och jämförs längs sin egen körväg. Fordon vars variant inte
+  // går att avgöra räknas inte, utom när linjen bara har en variant.
+  const headways = useMemo(() => {
+    if (!activeRoute || isReplayOpen) return null;
+    const groups = new Map<string, { vehicles: SLVehicle[]; track: RouteTrack }>();
+    lineVehicles.filter(v => !isVehicleStale(v)).forEach(v => {
+      const variant = findTripVariant(activeRoute, v.tripId, v.directionId)
+        ?? (activeRoute.variants.length === 1 ? activeRoute.variants[0] : null);
+      const track = variant && variantTracks.get(variant.id);
+      if (!variant || !track) return;
+      const group = groups.get(variant.id);
+      if (group) group.vehicles.push(v);
+      else groups.set(variant.id, { vehicles: [v], track });
+    });
+    return computeHeadwaysPerTrack(Array.from(groups.values()));
+  }, [lineVehicles, activeRoute, variantTracks, isReplayOpen, staleThresholdMin, now]);
+
+  const routeAlerts = useMemo(() => {
+    if (!activeRoute) return [];
+    return serviceAlerts.filter(a => a.routeIds.includes(activeRoute.id));
+  }, [serviceAlerts, activeRoute]);
+
+  const stopAlerts = useMemo(() => {
+    if (!activeStop) return [];
+    const stopIds = new Set([activeStop.id, ...activeStop.platforms.map(p => p.id)]);
+    return serviceAlerts.filter(a => a.stopIds.some(id => stopIds.has(id)));
+  }, [serviceAlerts, activeStop]);
+
+  // Linjerna som trafikerar den valda stationen, i nummerordning
+  const activeStopLines = useMemo(() => {
+    if (!activeStop) return [];
+    return activeStop.lines
+      .map(routeId => ({ routeId, line: routeManifest.get(routeId)?.line }))
+      .filter((l): l is { routeId: string; line: string } => !!l.line)
+      .sort((a, b) => a.line.localeCompare(b.line, 'sv', { numeric: true }));
+  }, [activeStop, routeManifest]);
+
+  const toggleMode = (mode: TransportMode) => {
+    setHiddenModes(prev => {
+      const next = new Set(prev);
+      if (next.has(mode)) next.delete(mode); else next.add(mode);
+      return next;
+    });
+  };
+
+  const visibleVehicles = useMemo(() => {
+    let filtered = activeRoute && !showAllVehicles ? lineVehicles : vehicles;
+    if (!activeRoute && !showAllVehicles) return [];
+    if (hiddenModes.size > 0) filtered = filtered.filter(v => !hiddenModes.has(v.type));
+    if (hideStale) filtered = filtered.filter(v => !isVehicleStale(v));
 
     if (!visibleBounds) return [];
     const paddedBounds = visibleBounds.pad(0.5);
     return filtered.filter(v => paddedBounds.contains({ lat: v.lat, lng: v.lng }));
-  }, [vehicles, visibleBounds, activeRoute, showAllVehicles]);
+  }, [vehicles, lineVehicles, visibleBounds, activeRoute, showAllVehicles, hiddenModes, hideStale, staleThresholdMin, now]);
 
 
   if (loading) {
@@ -359,18 +766,76 @@ const App: React.FC = () => {
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
         placeholder={activeRoute ? "Sök hållplats på linjen..." : "Sök linje eller hållplats..."}
-        historyPath={historyPath}
+        passages={tripPassages}
+        serviceAlerts={serviceAlerts}
+        predictions={tripPredictions}
       />
 
       {activeRoute && (
-        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[900] flex items-center justify-center pointer-events-auto">
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-[900] flex flex-col items-center gap-2 pointer-events-auto">
           <div className="flex items-center gap-2">
             <div className="bg-blue-600 px-5 py-3 rounded-2xl text-white shadow-xl flex items-center gap-3 border border-blue-400/30">
               <MapIcon className="w-5 h-5 flex-shrink-0" />
               <span className="font-bold text-sm tracking-wide whitespace-nowrap">
                 {getLineDisplayName()}
               </span>
+              {activeRoute.variants.length > 1 && (
+                <select
+                  value={activeRoute.variantId}
+                  onChange={(e) => setActiveRoute(selectLineVariant(activeRoute, e.target.value))}
+                  className="bg-blue-500 text-white text-xs font-semibold rounded-lg px-2 py-1 outline-none border border-blue-300/40 max-w-[12rem]"
+                  title="Välj riktning eller variant"
+                >
+                  {Array.from(new Set(activeRoute.variants.map(v => v.directionId))).map(directionId => (
+                    <optgroup key={String(directionId)} label={directionId !== null ? `Riktning ${directionId + 1}` : 'Varianter'}>
+                      {activeRoute.variants.filter(v => v.directionId === directionId).map(v => (
+                        <option key={v.id} value={v.id}>
+                          Mot {v.headsign || v.stops[v.stops.length - 1]?.name} ({v.stops.length} hpl, {v.trip_ids.length} turer)
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              )}
             </div>
+            {routeAlerts.length > 0 && (
+              <button
+                onClick={() => setShowRouteAlerts(!showRouteAlerts)}
+                className="bg-amber-500 hover:bg-amber-400 px-3 py-3 rounded-2xl shadow-lg text-white flex items-center gap-1.5 font-bold text-sm transition-all active:scale-95"
+                title="Visa störningar på linjen"
+              >
+                <AlertTriangle className="w-5 h-5" />
+                {routeAlerts.length}
+              </button>
+            )}
+            <button
+              onClick={() => setShowLineStats(!showLineStats)}
+              className={`${showLineStats ? 'bg-blue-600 text-white' : 'bg-white/90 hover:bg-white text-slate-700'} backdrop-blur-md p-3 rounded-2xl shadow-lg border border-black/5 transition-all active:scale-95`}
+              title="Visa linjens punktlighet"
+            >
+              <BarChart3 className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => {
+                setIsReplayOpen(!isReplayOpen);
+                setSelectedVehicleId(null);
+                setHistoryPath([]);
+              }}
+              className={`${isReplayOpen ? 'bg-blue-600 text-white' : 'bg-white/90 hover:bg-white text-slate-700'} backdrop-blur-md p-3 rounded-2xl shadow-lg border border-black/5 transition-all active:scale-95`}
+              title="Spela upp linjens historik"
+            >
+              <History className="w-5 h-5" />
+            </button>
+            {cancelledTrips.length > 0 && (
+              <button
+                onClick={() => setShowCancelledTrips(!showCancelledTrips)}
+                className="bg-red-600 hover:bg-red-500 px-3 py-3 rounded-2xl shadow-lg text-white flex items-center gap-1.5 font-bold text-sm transition-all active:scale-95"
+                title="Visa inställda avgångar på linjen"
+              >
+                <Ban className="w-5 h-5" />
+                {cancelledTrips.length}
+              </button>
+            )}
             <button 
               onClick={handleClear}
               className="bg-white/90 hover:bg-white backdrop-blur-md p-3 rounded-2xl shadow-lg border border-black/5 text-slate-700 transition-all active:scale-95"
@@ -379,6 +844,47 @@ const App: React.FC = () => {
               <X className="w-5 h-5" />
             </button>
           </div>
+          {showRouteAlerts && routeAlerts.length > 0 && (
+            <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 p-3 rounded-2xl shadow-2xl w-[min(28rem,calc(100vw-2rem))] max-h-72 overflow-y-auto">
+              <ServiceAlertList alerts={routeAlerts} variant="dark" />
+            </div>
+          )}
+          {showLineStats && (
+            <LineStatsPanel
+              routeId={activeRoute.id}
+              lineName={activeRoute.line}
+              onClose={() => setShowLineStats(false)}
+            />
+          )}
+          {isReplayOpen && (
+            <ReplayPanel
+              routeId={activeRoute.id}
+              lineName={activeRoute.line}
+              trips={replayTrips}
+              time={replayTime}
+              onTripsLoaded={(trips, from) => {
+                setReplayTrips(trips);
+                setReplayTime(from);
+              }}
+              onTimeChange={setReplayTime}
+              onClose={() => setIsReplayOpen(false)}
+            />
+          )}
+          {showCancelledTrips && cancelledTrips.length > 0 && (
+            <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 p-3 rounded-2xl shadow-2xl w-[min(28rem,calc(100vw-2rem))] max-h-72 overflow-y-auto">
+              <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mb-2">Inställda avgångar</div>
+              <ul className="flex flex-col gap-1.5">
+                {cancelledTrips.map(trip => (
+                  <li key={trip.tripId} className="flex items-center justify-between gap-3 text-sm">
+                    <span className="text-slate-300 line-through truncate" title={trip.headsign}>Mot {trip.headsign}</span>
+                    <span className="text-red-400 font-bold whitespace-nowrap">
+                      {trip.startTime ? new Date(trip.startTime).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' }) : 'Inställd'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
 
@@ -389,17 +895,28 @@ const App: React.FC = () => {
         <div className="pointer-events-auto w-full md:w-auto flex flex-col gap-3">
           <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 p-4 rounded-2xl shadow-2xl flex flex-col gap-3 w-full md:min-w-[240px]">
             <div className="flex items-center gap-4">
-               <div className={`w-3 h-3 rounded-full flex-shrink-0 ${liveStatus === 'ok' ? 'bg-emerald-500 animate-pulse' : (liveStatus === 'error' ? 'bg-red-500' : 'bg-yellow-500')}`}></div>
-               <div>
+               <div className={`w-3 h-3 rounded-full flex-shrink-0 ${liveStatus === 'error' ? 'bg-red-500' : (liveStatus === 'loading' ? 'bg-yellow-500' : (isFeedDelayed ? 'bg-amber-500' : 'bg-emerald-500 animate-pulse'))}`}></div>
+               <div className="flex-1">
                  <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest mb-0.5">Live Status</div>
                  <div className="text-sm font-semibold text-white">{getStatusText()}</div>
+                 {liveStatus === 'ok' && getFeedAgeText() && (
+                   <div className={`text-[10px] mt-0.5 ${isFeedDelayed ? 'text-amber-400' : 'text-slate-500'}`}>{getFeedAgeText()}</div>
+                 )}
                </div>
+               <a
+                 href={slService.getVehiclesExportUrl(activeRoute && !showAllVehicles ? { routeId: activeRoute.id } : {})}
+                 download
+                 className="text-slate-400 hover:text-white"
+                 title="Ladda ner aktuella fordonslägen som GeoJSON"
+               >
+                 <Download className="w-4 h-4" />
+               </a>
             </div>
             
             <div className="h-px w-full bg-white/10"></div>
             
             <div className="flex items-center justify-between">
-                <span className="text-xs font-medium text-slate-300">Visa alla bussar</span>
+                <span className="text-xs font-medium text-slate-300">Visa alla fordon</span>
                 <label className="relative inline-flex items-center cursor-pointer">
                     <input 
                         type="checkbox" 
@@ -423,11 +940,69 @@ const App: React.FC = () => {
                     <div className="w-9 h-5 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
                 </label>
             </div>
+
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium text-slate-300">Inaktiva efter</span>
+                <select
+                    value={staleThresholdMin}
+                    onChange={(e) => setStaleThresholdMin(parseInt(e.target.value))}
+                    className="bg-slate-800 text-slate-200 text-xs rounded-lg px-2 py-1 outline-none border border-white/10"
+                >
+                    {STALE_THRESHOLD_OPTIONS_MIN.map(min => (
+                        <option key={min} value={min}>{min} min</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-slate-300">Dölj inaktiva fordon</span>
+                <label className="relative inline-flex items-center cursor-pointer">
+                    <input 
+                        type="checkbox" 
+                        checked={hideStale} 
+                        onChange={(e) => setHideStale(e.target.checked)} 
+                        className="sr-only peer" 
+                    />
+                    <div className="w-9 h-5 bg-slate-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+            </div>
+
+            <div className="h-px w-full bg-white/10"></div>
+
+            <div className="flex items-center justify-between gap-1">
+                {TRANSPORT_MODES.map(mode => {
+                  const isHidden = hiddenModes.has(mode);
+                  return (
+                    <button
+                        key={mode}
+                        onClick={() => toggleMode(mode)}
+                        title={isHidden ? `Visa ${mode.toLowerCase()}` : `Dölj ${mode.toLowerCase()}`}
+                        className={`p-1.5 rounded-lg transition-colors ${isHidden ? 'bg-slate-800 opacity-40' : 'bg-blue-600/30 hover:bg-blue-600/50'}`}
+                    >
+                        <TransportIcon mode={mode} className={`w-4 h-4 ${isHidden ? 'text-slate-500' : 'text-blue-300'}`} />
+                    </button>
+                  );
+                })}
+            </div>
           </div>
         </div>
 
         {/* Vehicle Search Box */}
         <div className="pointer-events-auto w-full md:w-auto flex flex-col items-end gap-2">
+           {dayVehicleId && (
+             <VehicleDayPanel
+               vehicleId={dayVehicleId}
+               trips={vehicleDayTrips}
+               selectedTripId={selectedDayTripId}
+               onTripsLoaded={setVehicleDayTrips}
+               onSelectTrip={setSelectedDayTripId}
+               onClose={() => {
+                 setDayVehicleId(null);
+                 setVehicleDayTrips([]);
+                 setSelectedDayTripId(null);
+               }}
+             />
+           )}
            <VehicleSearch onVehicleFound={handleVehicleFound} />
         </div>
 
@@ -442,24 +1017,59 @@ const App: React.FC = () => {
         {activeRoute && (
           <>
             <Polyline positions={activeRoute.path} color="#3b82f6" weight={8} opacity={0.6} lineCap="round" />
-            {activeRoute.stops.map(stop => (
-              <CircleMarker 
-                key={stop.id} 
-                center={[stop.lat, stop.lng]} 
-                radius={6} 
-                fillColor="white" 
-                fillOpacity={1} 
-                color="#3b82f6" 
-                weight={2}
-                eventHandlers={{
-                  click: () => {
-                    setSelectedVehicleId(null);
-                    setActiveStop(stop);
-                    setHistoryPath([]);
-                  }
-                }}
+            {headways?.segments.map(segment => (
+              <Polyline
+                key={`headway-${segment.behindId}-${segment.aheadId}`}
+                positions={segment.path}
+                color={HEADWAY_COLORS[segment.status]}
+                weight={4}
+                opacity={0.9}
+                lineCap="round"
               />
             ))}
+            {activeRoute.stops.map(stop => {
+              const prediction = predictionsByStop.get(stop.id);
+              const predictionText = prediction ? getPredictionText(prediction) : null;
+              // Hållplatser som resan hoppar över ritas streckade och gråa
+              const isSkipped = prediction?.scheduleRelationship === 'SKIPPED';
+              return (
+                <CircleMarker 
+                  key={stop.id} 
+                  center={[stop.lat, stop.lng]} 
+                  radius={6} 
+                  fillColor={isSkipped ? "#e2e8f0" : "white"} 
+                  fillOpacity={1} 
+                  color={isSkipped ? "#94a3b8" : (predictionText ? "#059669" : "#3b82f6")} 
+                  dashArray={isSkipped ? "2 3" : undefined}
+                  weight={2}
+                  eventHandlers={{
+                    click: () => {
+                      setSelectedVehicleId(null);
+                      setActiveStop(buildStation([stop]));
+                      setHistoryPath([]);
+                      // Linjens hållplatser saknar linjelistan, den finns i hållplatsdatan
+                      slService.getStation([stop.id]).then(station => {
+                        if (station) setActiveStop(current => current?.id === stop.id ? station : current);
+                      });
+                    }
+                  }}
+                >
+                  {predictionText && (
+                    <Tooltip
+                      key={`${stop.id}-${pinnedPredictionStops.has(stop.id)}`}
+                      direction="right"
+                      offset={[6, 0]}
+                      opacity={1}
+                      permanent={pinnedPredictionStops.has(stop.id)}
+                    >
+                      <span className="text-xs">
+                        <span className={`font-bold ${isSkipped ? 'line-through text-slate-400' : ''}`}>{stop.name}</span> • {predictionText}
+                      </span>
+                    </Tooltip>
+                  )}
+                </CircleMarker>
+              );
+            })}
           </>
         )}
 
@@ -491,6 +1101,8 @@ const App: React.FC = () => {
                     <Tooltip direction="top" offset={[0, -5]} opacity={1}>
                         <span className="font-bold text-xs">
                              {new Date(point.ts).toLocaleTimeString('sv-SE')}
+                             {getDelayText(point.delay)}
+                             {point.speed !== undefined && ` • ${point.speed} km/h`}
                         </span>
                     </Tooltip>
                 </CircleMarker>
@@ -498,6 +1110,45 @@ const App: React.FC = () => {
           </>
         )}
 
+        {/* Fordonets tidigare resor idag, den markerade resan ritas heldragen */}
+        {vehicleDayTrips.map(trip => {
+          const isSelected = trip.tripId === selectedDayTripId;
+          return (
+            <Polyline
+              key={`day-${trip.tripId}`}
+              positions={trip.path}
+              color="#7c3aed"
+              weight={isSelected ? 5 : 3}
+              opacity={isSelected ? 0.9 : 0.4}
+              dashArray={isSelected ? undefined : "4 6"}
+              lineCap="round"
+              eventHandlers={{ click: () => setSelectedDayTripId(trip.tripId) }}
+            >
+              <Tooltip sticky>
+                <span className="font-bold text-xs">
+                  {trip.line ? `Linje ${trip.line} ` : ''}mot {trip.headsign} • {new Date(trip.start).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </Tooltip>
+            </Polyline>
+          );
+        })}
+
+        {activeStop && activeStop.platforms.length > 1 && activeStop.platforms.map(platform => (
+          <CircleMarker
+            key={`platform-${platform.id}`}
+            center={[platform.lat, platform.lng]}
+            radius={6}
+            pathOptions={{ color: '#059669', fillColor: '#10b981', fillOpacity: 0.8, weight: 2 }}
+          >
+            <Tooltip direction="top" offset={[0, -6]}>
+              <span className="text-xs font-semibold">
+                {platform.platformCode ? `Läge ${platform.platformCode}` : platform.name}
+                {platform.lines.length > 0 && ` • ${platform.lines.map(id => routeManifest.get(id)?.line).filter(Boolean).join(', ')}`}
+              </span>
+            </Tooltip>
+          </CircleMarker>
+        ))}
+
         {activeStop && (
            <AutoOpenMarker 
              key={`stop-${activeStop.id}`} 
@@ -520,12 +1171,44 @@ const App: React.FC = () => {
                       {activeStop.name}
                     </h3>
                  </div>
+                 {activeStopLines.length > 0 && (
+                   <div className="mt-2 flex flex-wrap gap-1 max-w-[260px]">
+                     {activeStopLines.map(({ routeId, line }) => (
+                       <button
+                         key={routeId}
+                         onClick={() => handleSearchSelect({ type: 'line', id: routeId, title: line })}
+                         className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-[10px] font-bold hover:bg-blue-100 transition-colors"
+                         title={`Visa linje ${line}`}
+                       >
+                         {line}
+                       </button>
+                     ))}
+                   </div>
+                 )}
+                 {stopAlerts.length > 0 && (
+                   <div className="mt-2 max-w-[260px] max-h-48 overflow-y-auto">
+                     <ServiceAlertList alerts={stopAlerts} />
+                   </div>
+                 )}
+                 <div className="mt-2 w-[260px] max-h-64 overflow-y-auto">
+                   <DepartureBoard stopIds={activeStop.platforms.map(p => p.id)} routeManifest={routeManifest} />
+                 </div>
                </div>
              </Popup>
            </AutoOpenMarker>
         )}
 
-        {visibleVehicles.map((v) => {
+        {activeRoute && replayPositions.map(({ trip, position }) => (
+          <ReplayVehicleMarker
+            key={`replay-${trip.tripId}`}
+            trip={trip}
+            position={position}
+            lineShortName={activeRoute.line}
+            mode={activeRoute.mode}
+          />
+        ))}
+
+        {!isReplayOpen && visibleVehicles.map((v) => {
           const lineInfo = routeManifest.get(v.line);
           const shortName = lineInfo ? lineInfo.line : '?';
           return (
@@ -534,14 +1217,24 @@ const App: React.FC = () => {
               vehicle={v} 
               lineShortName={shortName} 
               isSelected={selectedVehicleId === v.id}
+              isStale={isVehicleStale(v)}
+              track={getVehicleTrack(v)}
+              headway={headways?.byVehicle.get(v.id)}
               onSelect={(id) => {
                 setSelectedVehicleId(id);
                 setActiveStop(null);
+                if (activeRoute && v.line === activeRoute.id) setActiveRoute(showVehicleVariant(activeRoute, v));
               }}
               onDeselect={() => {
                   setSelectedVehicleId(null);
                   setHistoryPath([]);
               }}
+              onShowDay={(id) => {
+                if (id === dayVehicleId) return;
+                setDayVehicleId(id);
+                setVehicleDayTrips([]);
+                setSelectedDayTripId(null);
+              }}
             />
           );
         })}
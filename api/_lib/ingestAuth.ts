@@ -0,0 +1,62 @@
+import { timingSafeEqual } from 'crypto';
+import type { VercelRequest } from '@vercel/node';
+
+// Klientnycklar för /api/ingest anges som INGEST_TOKENS="klient1:nyckel1,klient2:nyckel2".
+// Utan konfigurerade nycklar är insamlingen avstängd.
+
+// Antal anrop per klient och fönster
+const RATE_LIMIT_REQUESTS = parseInt(process.env.INGEST_RATE_LIMIT || '') || 30;
+const RATE_LIMIT_WINDOW_MS = 1000 * 60;
+
+export interface IngestClient {
+    clientId: string;
+    token: string;
+}
+
+function parseTokens(raw: string | undefined): IngestClient[] {
+    if (!raw) return [];
+    return raw.split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const sep = entry.indexOf(':');
+            return sep > 0
+                ? { clientId: entry.slice(0, sep), token: entry.slice(sep + 1) }
+                : { clientId: entry, token: '' };
+        })
+        .filter(c => c.token.length > 0);
+}
+
+const clients = parseTokens(process.env.INGEST_TOKENS);
+
+export const isIngestEnabled = () => clients.length > 0;
+
+// Jämför i konstant tid så att nycklar inte kan gissas fram via svarstider
+function tokenEquals(a: string, b: string) {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+export function authenticateIngest(req: VercelRequest): IngestClient | null {
+    const header = req.headers['authorization'];
+    if (typeof header !== 'string' || !header.startsWith('Bearer ')) return null;
+    const token = header.slice('Bearer '.length).trim();
+    return clients.find(c => tokenEquals(c.token, token)) ?? null;
+}
+
+// Fast fönster per klient. Räknas per instans, vilket räcker för att stoppa en klient som skenar.
+const windows = new Map<string, { start: number; count: number }>();
+
+export function checkRateLimit(clientId: string, now: number) {
+    let w = windows.get(clientId);
+    if (!w || now - w.start >= RATE_LIMIT_WINDOW_MS) {
+        w = { start: now, count: 0 };
+        windows.set(clientId, w);
+    }
+    w.count++;
+    return {
+        allowed: w.count <= RATE_LIMIT_REQUESTS,
+        retryAfter: Math.ceil((w.start + RATE_LIMIT_WINDOW_MS - now) / 1000)
+    };
+}
@@ -0,0 +1,96 @@
+import { Readable } from 'stream';
+import type { IncomingMessage } from 'http';
+import { describe, it, expect } from 'vitest';
+import { readRawBody, validateVehicle } from './ingestValidation';
+
+// Ett anrop utan content-length, där kroppen kommer i flera delar
+const chunked = (...chunks: string[]) => Readable.from(chunks.map(c => Buffer.from(c))) as unknown as IncomingMessage;
+
+describe('readRawBody', () => {
+    it('läser hela kroppen under gränsen', async () => {
+        const body = await readRawBody(chunked('{"vehicles":', '[]}'), 64);
+        expect(body?.toString('utf8')).toBe('{"vehicles":[]}');
+    });
+
+    it('avbryter när gränsen passeras, oavsett content-length', async () => {
+        const body = await readRawBody(chunked('x'.repeat(40), 'y'.repeat(40)), 64);
+        expect(body).toBeNull();
+    });
+
+    it('räknar byte och inte tecken', async () => {
+        expect(await readRawBody(chunked('å'.repeat(40)), 64)).toBeNull();
+    });
+
+    it('slutar läsa från strömmen när gränsen passerats', async () => {
+        const stream = chunked('x'.repeat(80), 'y'.repeat(80), 'z'.repeat(80));
+        expect(await readRawBody(stream, 64)).toBeNull();
+        expect(stream.listenerCount('data')).toBe(0);
+        expect(stream.isPaused()).toBe(true);
+    });
+});
+
+describe('validateVehicle', () => {
+    const now = 1760438400000;
+    const valid = {
+        id: '9031001004500001',
+        tripId: '14010000668563458',
+        line: '9011001000400000',
+        lat: 59.3426,
+        lng: 18.0491,
+        ts: now - 5000,
+        bearing: 92,
+        speed: 31
+    };
+
+    const rejection = (overrides: Record<string, unknown>) => {
+        const result = validateVehicle({ ...valid, ...overrides }, 3, now);
+        return 'rejection' in result ? result.rejection : null;
+    };
+
+    it('godkänner ett giltigt fordon', () => {
+        expect(validateVehicle(valid, 0, now)).toEqual({
+            sample: {
+                tripId: valid.tripId,
+                line: valid.line,
+                vehicleId: valid.id,
+                lat: valid.lat,
+                lng: valid.lng,
+                ts: valid.ts,
+                bearing: 92,
+                speed: 31
+            }
+        });
+    });
+
+    it('sätter mottagningstiden när ts saknas', () => {
+        const result = validateVehicle({ ...valid, ts: undefined }, 0, now);
+        expect('sample' in result && result.sample.ts).toBe(now);
+    });
+
+    it('avvisar sådant som inte är objekt', () => {
+        expect(validateVehicle(null, 0, now)).toEqual({ rejection: { index: 0, vehicleId: undefined, field: 'vehicle', reason: 'must be an object' } });
+        expect(validateVehicle([valid], 1, now)).toMatchObject({ rejection: { field: 'vehicle' } });
+    });
+
+    it.each<[Record<string, unknown>, string, string]>([
+        [{ id: '' }, 'id', 'must be 1-64 characters [A-Za-z0-9_.:-]'],
+        [{ id: 'fordon 1' }, 'id', 'must be 1-64 characters [A-Za-z0-9_.:-]'],
+        [{ tripId: '1401000066856345' }, 'tripId', 'must be a 17 digit GTFS trip id'],
+        [{ tripId: 14010000668563458 }, 'tripId', 'must be a 17 digit GTFS trip id'],
+        [{ line: 'linje/4' }, 'line', 'must be a route id'],
+        [{ lat: '59.34' }, 'lat/lng', 'must be numbers'],
+        [{ lng: NaN }, 'lat/lng', 'must be numbers'],
+        [{ lat: 57.7, lng: 11.97 }, 'lat/lng', 'outside the Stockholm region'],
+        [{ lng: 19.8 }, 'lat/lng', 'outside the Stockholm region'],
+        [{ ts: '2025-10-14' }, 'ts', 'must be a timestamp in ms'],
+        [{ ts: now + 31000 }, 'ts', 'is in the future'],
+        [{ ts: now - 11 * 60 * 1000 }, 'ts', 'is too old'],
+        [{ bearing: 360 }, 'bearing', 'must be between 0 and 360'],
+        [{ bearing: -1 }, 'bearing', 'must be between 0 and 360'],
+        [{ speed: 201 }, 'speed', 'must be between 0 and 200 km/h'],
+        [{ speed: -5 }, 'speed', 'must be between 0 and 200 km/h']
+    ])('avvisar %o med fältet %s', (overrides, field, reason) => {
+        const id = typeof overrides.id === 'string' ? overrides.id : valid.id;
+        expect(rejection(overrides)).toEqual({ index: 3, vehicleId: id, field, reason });
+    });
+});
@@ -0,0 +1,98 @@
+import type { IncomingMessage } from 'http';
+import { TrailSample } from './storage.js';
+
+// Största tillåtna anrop till /api/ingest
+export const MAX_BODY_BYTES = 256 * 1024;
+export const MAX_VEHICLES_PER_REQUEST = 500;
+
+// Läser anropets rådata och räknar byte själv, eftersom content-length kan saknas (chunked)
+// eller vara fel. Ger null så fort gränsen passeras och slutar då läsa från strömmen.
+export function readRawBody(req: IncomingMessage, maxBytes: number): Promise<Buffer | null> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        let done = false;
+        const onData = (chunk: Buffer | string) => {
+            if (done) return;
+            const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+            size += buffer.length;
+            if (size > maxBytes) {
+                done = true;
+                chunks.length = 0;
+                // Svaret (413) ska fortfarande kunna skickas, så strömmen pausas istället för att stängas
+                req.removeListener('data', onData);
+                req.pause();
+                resolve(null);
+                return;
+            }
+            chunks.push(buffer);
+        };
+        req.on('data', onData);
+        req.on('end', () => { if (!done) { done = true; resolve(Buffer.concat(chunks)); } });
+        req.on('error', err => { if (!done) { done = true; reject(err); } });
+    });
+}
+
+// Stockholms län med marginal (Uppsala och Södertälje-området ligger innanför)
+const REGION_BOUNDS = { minLat: 58.6, maxLat: 60.4, minLng: 16.9, maxLng: 19.7 };
+// Resor identifieras med SL:s GTFS-id, t.ex. 14010000664276317
+const TRIP_ID_PATTERN = /^\d{17}$/;
+const ID_PATTERN = /^[\w.:-]{1,64}$/;
+// Tidsstämplar får vara högst så här gamla respektive ligga så här långt fram (klockdrift)
+const MAX_SAMPLE_AGE_MS = 1000 * 60 * 10;
+const MAX_CLOCK_SKEW_MS = 1000 * 30;
+
+export interface IngestRejection {
+    index: number;
+    vehicleId?: string;
+    field: string;
+    reason: string;
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+// Kontrollera ett fordon från en extern klient. Ger antingen en färdig punkt eller en anledning till avslag.
+export function validateVehicle(v: any, index: number, now: number): { sample: TrailSample } | { rejection: IngestRejection } {
+    const reject = (field: string, reason: string) => ({
+        rejection: { index, vehicleId: typeof v?.id === 'string' ? v.id : undefined, field, reason }
+    });
+
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return reject('vehicle', 'must be an object');
+    if (typeof v.id !== 'string' || !ID_PATTERN.test(v.id)) return reject('id', 'must be 1-64 characters [A-Za-z0-9_.:-]');
+    if (typeof v.tripId !== 'string' || !TRIP_ID_PATTERN.test(v.tripId)) return reject('tripId', 'must be a 17 digit GTFS trip id');
+    if (v.line !== undefined && (typeof v.line !== 'string' || !ID_PATTERN.test(v.line))) return reject('line', 'must be a route id');
+
+    if (!isFiniteNumber(v.lat) || !isFiniteNumber(v.lng)) return reject('lat/lng', 'must be numbers');
+    if (v.lat < REGION_BOUNDS.minLat || v.lat > REGION_BOUNDS.maxLat || v.lng < REGION_BOUNDS.minLng || v.lng > REGION_BOUNDS.maxLng) {
+        return reject('lat/lng', 'outside the Stockholm region');
+    }
+
+    let ts = now;
+    if (v.ts !== undefined) {
+        if (!isFiniteNumber(v.ts)) return reject('ts', 'must be a timestamp in ms');
+        if (v.ts > now + MAX_CLOCK_SKEW_MS) return reject('ts', 'is in the future');
+        if (v.ts < now - MAX_SAMPLE_AGE_MS) return reject('ts', 'is too old');
+        ts = Math.round(v.ts);
+    }
+
+    if (v.bearing !== undefined && (!isFiniteNumber(v.bearing) || v.bearing < 0 || v.bearing >= 360)) {
+        return reject('bearing', 'must be between 0 and 360');
+    }
+    // km/h, allt över 200 är ett mätfel
+    if (v.speed !== undefined && (!isFiniteNumber(v.speed) || v.speed < 0 || v.speed > 200)) {
+        return reject('speed', 'must be between 0 and 200 km/h');
+    }
+
+    return {
+        sample: {
+            tripId: v.tripId,
+            line: v.line,
+            vehicleId: v.id,
+            lat: v.lat,
+            lng: v.lng,
+            ts,
+            bearing: v.bearing,
+            speed: v.speed
+        }
+    };
+}
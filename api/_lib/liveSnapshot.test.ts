@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('getStaticOrigin', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('använder den konfigurerade adressen i första hand', async () => {
+        vi.stubEnv('STATIC_DATA_ORIGIN', 'https://sl-live.example.se/');
+        vi.stubEnv('VERCEL_URL', 'sl-live-abc123.vercel.app');
+        const { getStaticOrigin } = await import('./liveSnapshot');
+        expect(getStaticOrigin()).toBe('https://sl-live.example.se');
+    });
+
+    it('faller tillbaka på deploymentens egen adress', async () => {
+        vi.stubEnv('STATIC_DATA_ORIGIN', '');
+        vi.stubEnv('VERCEL_URL', 'sl-live-abc123.vercel.app');
+        vi.stubEnv('VERCEL_ENV', 'production');
+        const { getStaticOrigin } = await import('./liveSnapshot');
+        expect(getStaticOrigin()).toBe('https://sl-live-abc123.vercel.app');
+    });
+
+    it('ger fel när ingen adress är konfigurerad', async () => {
+        vi.stubEnv('STATIC_DATA_ORIGIN', '');
+        vi.stubEnv('VERCEL_URL', '');
+        const { getStaticOrigin } = await import('./liveSnapshot');
+        expect(() => getStaticOrigin()).toThrow('STATIC_DATA_ORIGIN');
+    });
+});
+
+describe('getStaticLookups', () => {
+    const files: Record<string, unknown> = {
+        '/data/trips/index.json': null,
+        '/data/trip-to-route.json': { '14010000668563458': { r: '9011001000400000', h: 'Radiohuset' } },
+        '/data/route-directions.json': { '9011001000400000': { '0': 'Radiohuset' } },
+        '/data/stops.json': [{ id: '9022001010051001', name: 'Skanstull', lat: 59.3, lng: 18.07 }],
+        '/data/manifest.json': null
+    };
+    const fetchMock = vi.fn(async (url: string) => {
+        const body = files[new URL(url).pathname];
+        return body ? new Response(JSON.stringify(body)) : new Response('', { status: 503 });
+    });
+
+    beforeEach(() => {
+        vi.resetModules();
+        vi.useFakeTimers();
+        vi.stubEnv('STATIC_DATA_ORIGIN', 'https://sl-live.example.se');
+        vi.stubGlobal('fetch', fetchMock);
+        fetchMock.mockClear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it('försöker igen efter en kort stund när någon fil saknades', async () => {
+        const { getStaticLookups } = await import('./liveSnapshot');
+        const first = await getStaticLookups();
+        expect(first.stopNames.get('9022001010051001')).toBe('Skanstull');
+        expect(first.routeModes.size).toBe(0);
+
+        await getStaticLookups();
+        const callsAfterFirst = fetchMock.mock.calls.length;
+        expect(callsAfterFirst).toBe(5);
+
+        vi.advanceTimersByTime(60 * 1000);
+        await getStaticLookups();
+        expect(fetchMock.mock.calls.length).toBe(2 * callsAfterFirst);
+    });
+});
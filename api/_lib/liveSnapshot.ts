@@ -0,0 +1,157 @@
+import type { VercelRequest } from '@vercel/node';
+import { SLVehicle, SLStop, TransportMode } from '../../types';
+import { VehicleLookups, VehicleFilter, TripMapEntry, TripUpdateInfo, getTransportMode, parseTripUpdates, buildVehicles } from '../../services/vehicleBuilder.js';
+import { decodeFeed, getFeedTimestampMs } from '../../services/gtfsRealtime.js';
+import { parseManifest } from '../../services/staticData.js';
+import { TripIndex, TripShard, TRIP_INDEX_FILE, getTripShardFile, decodeTripShard } from '../../services/tripIndex.js';
+
+const VEHICLE_POSITIONS_ENDPOINT = 'https://opendata.samtrafiken.se/gtfs-rt-sweden/sl/VehiclePositionsSweden.pb';
+const TRIP_UPDATES_ENDPOINT = 'https://opendata.samtrafiken.se/gtfs-rt-sweden/sl/TripUpdatesSweden.pb';
+
+// Hur länge en avkodad ögonblicksbild återanvänds inom samma instans
+const SNAPSHOT_TTL_MS = 2000;
+// Statisk data (trip-to-route m.m.) ändras bara när GTFS-datan processas om
+const STATIC_TTL_MS = 1000 * 60 * 60;
+// Misslyckade hämtningar (t.ex. under en deploy) försöks igen efter en kort stund
+const STATIC_RETRY_MS = 1000 * 30;
+
+let staticLookups: { lookups: VehicleLookups; loadedAt: number; ttl: number } | null = null;
+interface FeedSnapshot {
+    vehicles: SLVehicle[];
+    timestamp: number;
+    feedTimestamp?: number;
+}
+
+let snapshotCache: FeedSnapshot | null = null;
+// De senaste ögonblicksbilderna sparas så att en SSE-klient kan återuppta från sin token
+const SNAPSHOT_HISTORY_SIZE = 30;
+const snapshotHistory: FeedSnapshot[] = [];
+
+async function fetchJson(url: string) {
+    try {
+        const res = await fetch(url);
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+}
+
+// Den statiska datan hämtas från en betrodd adress och aldrig från anropets Host-header.
+// STATIC_DATA_ORIGIN anger den uttryckligen, annars används deploymentens egen VERCEL_URL.
+export function getStaticOrigin() {
+    const configured = process.env.STATIC_DATA_ORIGIN;
+    if (configured) return configured.replace(/\/+$/, '');
+
+    const deployment = process.env.VERCEL_URL;
+    if (!deployment) throw new Error('STATIC_DATA_ORIGIN or VERCEL_URL must be set');
+    const proto = process.env.VERCEL_ENV === 'development' ? 'http' : 'https';
+    return `${proto}://${deployment}`;
+}
+
+// Servern slår upp alla resor i flödet och laddar därför hela resindexet på en gång.
+// Äldre data har uppslaget i en enda fil. complete är falskt om någon del saknas.
+async function fetchTripToRoute(origin: string): Promise<{ tripToRoute: Record<string, TripMapEntry> | null; complete: boolean }> {
+    const index: TripIndex | null = await fetchJson(`${origin}/data/${TRIP_INDEX_FILE}`);
+    if (!index) {
+        const legacy = await fetchJson(`${origin}/data/trip-to-route.json`);
+        return { tripToRoute: legacy, complete: !!legacy };
+    }
+
+    const shards: (TripShard | null)[] = await Promise.all(
+        index.shards.map(key => fetchJson(`${origin}/data/${getTripShardFile(key)}`))
+    );
+    const tripToRoute: Record<string, TripMapEntry> = {};
+    shards.forEach(shard => { if (shard) Object.assign(tripToRoute, decodeTripShard(index, shard)); });
+    return { tripToRoute, complete: shards.every(shard => !!shard) };
+}
+
+// Den statiska datan ligger under /data på deploymenten, så vi hämtar den därifrån.
+// Ofullständiga uppslag används direkt men cachas bara en kort stund.
+export async function getStaticLookups(): Promise<VehicleLookups> {
+    if (staticLookups && Date.now() - staticLookups.loadedAt < staticLookups.ttl) {
+        return staticLookups.lookups;
+    }
+
+    const origin = getStaticOrigin();
+    const [trips, routeDirections, stops, manifest] = await Promise.all([
+        fetchTripToRoute(origin),
+        fetchJson(`${origin}/data/route-directions.json`),
+        fetchJson(`${origin}/data/stops.json`),
+        fetchJson(`${origin}/data/manifest.json`)
+    ]);
+
+    const stopNames = new Map<string, string>();
+    (stops || []).forEach((s: SLStop) => stopNames.set(s.id, s.name));
+
+    const routeModes = new Map<string, TransportMode>();
+    const routeNames = new Map<string, string>();
+    parseManifest(manifest).routes.forEach(r => {
+        routeModes.set(r.id, getTransportMode(r.route_type, r.line));
+        routeNames.set(r.id, r.line);
+    });
+
+    const lookups: VehicleLookups = { tripToRoute: trips.tripToRoute, routeDirections, stopNames, routeModes, routeNames };
+    const complete = trips.complete && !!routeDirections && !!stops && !!manifest;
+    staticLookups = { lookups, loadedAt: Date.now(), ttl: complete ? STATIC_TTL_MS : STATIC_RETRY_MS };
+    return lookups;
+}
+
+export async function getSnapshot(apiKey: string) {
+    if (snapshotCache && Date.now() - snapshotCache.timestamp < SNAPSHOT_TTL_MS) {
+        return snapshotCache;
+    }
+
+    const [posRes, updatesRes, lookups] = await Promise.all([
+        fetch(`${VEHICLE_POSITIONS_ENDPOINT}?key=${apiKey}`),
+        fetch(`${TRIP_UPDATES_ENDPOINT}?key=${apiKey}`).catch(() => null),
+        getStaticLookups()
+    ]);
+
+    if (!posRes.ok) throw new Error(`Upstream API failed: ${posRes.status}`);
+
+    const posFeed = decodeFeed(await posRes.arrayBuffer());
+
+    let tripInfoMap = new Map<string, TripUpdateInfo>();
+    if (updatesRes && updatesRes.ok) {
+        tripInfoMap = parseTripUpdates(decodeFeed(await updatesRes.arrayBuffer()).entity);
+    }
+
+    snapshotCache = {
+        vehicles: buildVehicles(posFeed.entity, tripInfoMap, lookups),
+        timestamp: Date.now(),
+        feedTimestamp: getFeedTimestampMs(posFeed)
+    };
+    snapshotHistory.push(snapshotCache);
+    if (snapshotHistory.length > SNAPSHOT_HISTORY_SIZE) snapshotHistory.shift();
+    return snapshotCache;
+}
+
+// Hämta en tidigare ögonblicksbild (resume token = dess timestamp) om instansen fortfarande har den
+export function getSnapshotAt(timestamp: number) {
+    return snapshotHistory.find(s => s.timestamp === timestamp) || null;
+}
+
+export function parseFilter(query: VercelRequest['query']): VehicleFilter | string {
+    const filter: VehicleFilter = {};
+    const single = (value: string | string[] | undefined) => Array.isArray(value) ? value[0] : value;
+
+    const bbox = single(query.bbox);
+    if (bbox) {
+        const parts = bbox.split(',').map(Number);
+        if (parts.length !== 4 || parts.some(isNaN)) return 'bbox must be minLng,minLat,maxLng,maxLat';
+        filter.bbox = parts as [number, number, number, number];
+    }
+
+    const limit = single(query.limit);
+    if (limit !== undefined) {
+        const n = parseInt(limit);
+        if (isNaN(n) || n < 0) return 'limit must be a non-negative integer';
+        filter.limit = n;
+    }
+
+    filter.routeId = single(query.routeId);
+    filter.tripId = single(query.tripId);
+    filter.vehicle = single(query.vehicle);
+    return filter;
+}
@@ -0,0 +1,116 @@
+import { HistoryPoint, ReplayTrip, StopPassage } from '../../types';
+import { TrackerStore, TrailSample, DelaySample, PassageHit, PassageQuery, VehicleTrail, TRAIL_RETENTION_MS, PASSAGE_RETENTION_MS } from './storage.js';
+
+interface MemoryTrail {
+    line?: string;
+    vehicleId: string;
+    points: HistoryPoint[];
+}
+
+// Minnesbaserad lagring för lokal körning och tester. All data försvinner när processen avslutas.
+export class MemoryStore implements TrackerStore {
+    private trails = new Map<string, MemoryTrail>();
+    private passages = new Map<string, StopPassage>();
+
+    // Rensa bort data äldre än lagringstiden, motsvarar TTL-indexen i MongoDB
+    private prune(now: number) {
+        const trailCutoff = now - TRAIL_RETENTION_MS;
+        this.trails.forEach((trail, tripId) => {
+            if (trail.points.length > 0 && trail.points[0].ts < trailCutoff) {
+                trail.points = trail.points.filter(p => p.ts >= trailCutoff);
+            }
+            if (trail.points.length === 0) this.trails.delete(tripId);
+        });
+
+        const passageCutoff = now - PASSAGE_RETENTION_MS;
+        this.passages.forEach((p, key) => { if (p.departure < passageCutoff) this.passages.delete(key); });
+    }
+
+    async insertTrailPoints(samples: TrailSample[]) {
+        for (const s of samples) {
+            let trail = this.trails.get(s.tripId);
+            if (!trail) {
+                trail = { line: s.line, vehicleId: s.vehicleId, points: [] };
+                this.trails.set(s.tripId, trail);
+            }
+            trail.line = s.line ?? trail.line;
+            trail.vehicleId = s.vehicleId;
+            trail.points.push({ lat: s.lat, lng: s.lng, ts: s.ts, delay: s.delay, directionId: s.directionId, bearing: s.bearing, speed: s.speed });
+        }
+        this.prune(Date.now());
+    }
+
+    async getTripTrail(tripId: string): Promise<HistoryPoint[]> {
+        const trail = this.trails.get(tripId);
+        return trail ? [...trail.points].sort((a, b) => a.ts - b.ts) : [];
+    }
+
+    async getLineTrails(line: string, from: number, to: number): Promise<ReplayTrip[]> {
+        const trips: ReplayTrip[] = [];
+        this.trails.forEach((trail, tripId) => {
+            if (trail.line !== line) return;
+            const path = trail.points.filter(p => p.ts >= from && p.ts <= to).sort((a, b) => a.ts - b.ts);
+            if (path.length > 0) trips.push({ tripId, vehicleId: trail.vehicleId, path });
+        });
+        return trips;
+    }
+
+    async getVehicleTrails(vehicleId: string, from: number, to: number): Promise<VehicleTrail[]> {
+        const trips: VehicleTrail[] = [];
+        this.trails.forEach((trail, tripId) => {
+            if (trail.vehicleId !== vehicleId) return;
+            const path = trail.points.filter(p => p.ts >= from && p.ts <= to).sort((a, b) => a.ts - b.ts);
+            if (path.length > 0) trips.push({ tripId, line: trail.line, path });
+        });
+        return trips;
+    }
+
+    async getDelaySamples(line: string, from: number, to: number, bucketMs: number): Promise<DelaySample[]> {
+        const latest = new Map<string, DelaySample>();
+        this.trails.forEach((trail, tripId) => {
+            if (trail.line !== line) return;
+            for (const p of trail.points) {
+                if (p.ts < from || p.ts > to || typeof p.delay !== 'number') continue;
+                const bucket = Math.floor((p.ts - from) / bucketMs);
+                const key = `${tripId}|${bucket}`;
+                const existing = latest.get(key);
+                if (!existing || p.ts >= existing.ts) latest.set(key, { tripId, bucket, delay: p.delay, ts: p.ts });
+            }
+        });
+        return Array.from(latest.values());
+    }
+
+    async upsertPassages(hits: PassageHit[]) {
+        for (const hit of hits) {
+            const key = `${hit.tripId}|${hit.stopId}`;
+            const existing = this.passages.get(key);
+            // Positionerna kan komma i fel ordning, så tidigaste och senaste behålls.
+            // Förseningen följer träffen som sätter ankomsten.
+            const setsArrival = !existing || hit.ts < existing.arrival;
+            const arrival = Math.min(existing?.arrival ?? hit.ts, hit.ts);
+            const departure = Math.max(existing?.departure ?? hit.ts, hit.ts);
+            this.passages.set(key, {
+                tripId: hit.tripId,
+                stopId: hit.stopId,
+                stopName: hit.stopName,
+                line: hit.line,
+                vehicleId: hit.vehicleId,
+                arrival,
+                departure,
+                dwell: Math.round((departure - arrival) / 1000),
+                delay: setsArrival ? (hit.delay ?? null) : existing.delay
+            });
+        }
+    }
+
+    async getPassages(query: PassageQuery): Promise<StopPassage[]> {
+        const result = Array.from(this.passages.values()).filter(p =>
+            (!query.tripId || p.tripId === query.tripId) &&
+            (!query.stopId || p.stopId === query.stopId) &&
+            (query.from === undefined || p.arrival >= query.from) &&
+            (query.to === undefined || p.arrival <= query.to)
+        );
+        result.sort((a, b) => query.tripId ? a.arrival - b.arrival : b.arrival - a.arrival);
+        return result.slice(0, query.limit);
+    }
+}
@@ -0,0 +1,188 @@
+import { Db } from 'mongodb';
+import { HistoryPoint, ReplayTrip, StopPassage } from '../../types';
+import { getMongoClient } from './mongodb.js';
+import { TrackerStore, TrailSample, DelaySample, PassageHit, PassageQuery, VehicleTrail, BUCKET_MS, TRAIL_RETENTION_MS, PASSAGE_RETENTION_MS } from './storage.js';
+
+// Ersatte vehicle_trails, äldre spår flyttas över med npm run migrate:trails
+const TRAIL_COLLECTION = "trail_buckets";
+const PASSAGE_COLLECTION = "stop_passages";
+// Övre gräns för antal punkter i ett dokument, ifall insamlingen går oväntat tätt
+const MAX_POINTS_PER_BUCKET = 240;
+
+const toHistoryPoint = (p: any): HistoryPoint => ({
+    lat: p.lat,
+    lng: p.lng,
+    ts: p.ts,
+    delay: p.delay ?? undefined,
+    directionId: p.directionId ?? undefined,
+    bearing: p.bearing ?? undefined,
+    speed: p.speed ?? undefined
+});
+
+// Matchning på de tidsdokument som kan innehålla punkter i [from, to]
+const bucketRangeMatch = (from: number, to: number) => ({ bucketStart: { $gt: from - BUCKET_MS, $lte: to } });
+
+export class MongoStore implements TrackerStore {
+    constructor(private db: Db) {}
+
+    async ensureIndexes() {
+        const trails = this.db.collection(TRAIL_COLLECTION);
+        await trails.createIndex({ tripId: 1, bucketStart: 1 }, { unique: true });
+        await trails.createIndex({ line: 1, bucketStart: 1 });
+        await trails.createIndex({ vehicleId: 1, bucketStart: 1 });
+        await trails.createIndex({ expireAt: 1 }, { expireAfterSeconds: 0 });
+
+        const passages = this.db.collection(PASSAGE_COLLECTION);
+        await passages.createIndex({ tripId: 1, stopId: 1 }, { unique: true });
+        await passages.createIndex({ stopId: 1, arrival: -1 });
+        await passages.createIndex({ expireAt: 1 }, { expireAfterSeconds: 0 });
+    }
+
+    async insertTrailPoints(samples: TrailSample[]) {
+        if (samples.length === 0) return;
+        const ops = samples.map(s => {
+            const bucketStart = Math.floor(s.ts / BUCKET_MS) * BUCKET_MS;
+            return {
+                updateOne: {
+                    filter: { tripId: s.tripId, bucketStart },
+                    update: {
+                        $set: {
+                            line: s.line,
+                            vehicleId: s.vehicleId,
+                            expireAt: new Date(bucketStart + BUCKET_MS + TRAIL_RETENTION_MS)
+                        },
+                        $min: { start: s.ts },
+                        $max: { end: s.ts },
+                        $inc: { count: 1 },
+                        $push: {
+                            points: {
+                                $each: [{ lat: s.lat, lng: s.lng, ts: s.ts, delay: s.delay, directionId: s.directionId, bearing: s.bearing, speed: s.speed }],
+                                $slice: -MAX_POINTS_PER_BUCKET
+                            }
+                        }
+                    },
+                    upsert: true
+                }
+            };
+        });
+        await this.db.collection(TRAIL_COLLECTION).bulkWrite(ops as any[], { ordered: false });
+    }
+
+    async getTripTrail(tripId: string): Promise<HistoryPoint[]> {
+        const buckets = await this.db.collection(TRAIL_COLLECTION)
+            .find({ tripId }, { projection: { _id: 0, points: 1 } })
+            .sort({ bucketStart: 1 })
+            .toArray();
+        return buckets.flatMap(b => b.points || []).map(toHistoryPoint).sort((a, b) => a.ts - b.ts);
+    }
+
+    async getLineTrails(line: string, from: number, to: number): Promise<ReplayTrip[]> {
+        const trips = await this.db.collection(TRAIL_COLLECTION).aggregate([
+            { $match: { line, ...bucketRangeMatch(from, to) } },
+            { $unwind: "$points" },
+            { $match: { "points.ts": { $gte: from, $lte: to } } },
+            { $sort: { "points.ts": 1 } },
+            { $group: { _id: "$tripId", vehicleId: { $last: "$vehicleId" }, points: { $push: "$points" } } }
+        ]).toArray();
+
+        return trips.map(t => ({
+            tripId: t._id,
+            vehicleId: t.vehicleId,
+            path: t.points.map(toHistoryPoint)
+        }));
+    }
+
+    async getVehicleTrails(vehicleId: string, from: number, to: number): Promise<VehicleTrail[]> {
+        const trips = await this.db.collection(TRAIL_COLLECTION).aggregate([
+            { $match: { vehicleId, ...bucketRangeMatch(from, to) } },
+            { $unwind: "$points" },
+            { $match: { "points.ts": { $gte: from, $lte: to } } },
+            { $sort: { "points.ts": 1 } },
+            { $group: { _id: "$tripId", line: { $last: "$line" }, points: { $push: "$points" } } }
+        ]).toArray();
+
+        return trips.map(t => ({
+            tripId: t._id,
+            line: t.line ?? undefined,
+            path: t.points.map(toHistoryPoint)
+        }));
+    }
+
+    async getDelaySamples(line: string, from: number, to: number, bucketMs: number): Promise<DelaySample[]> {
+        return this.db.collection(TRAIL_COLLECTION).aggregate<DelaySample>([
+            { $match: { line, ...bucketRangeMatch(from, to) } },
+            { $unwind: "$points" },
+            { $match: { "points.ts": { $gte: from, $lte: to }, "points.delay": { $type: "number" } } },
+            { $sort: { "points.ts": 1 } },
+            {
+                $group: {
+                    _id: {
+                        tripId: "$tripId",
+                        bucket: { $floor: { $divide: [{ $subtract: ["$points.ts", from] }, bucketMs] } }
+                    },
+                    delay: { $last: "$points.delay" },
+                    ts: { $last: "$points.ts" }
+                }
+            },
+            { $project: { _id: 0, tripId: "$_id.tripId", bucket: "$_id.bucket", delay: 1, ts: 1 } }
+        ]).toArray();
+    }
+
+    async upsertPassages(hits: PassageHit[]) {
+        if (hits.length === 0) return;
+        const ops = hits.map(hit => ({
+            updateOne: {
+                filter: { tripId: hit.tripId, stopId: hit.stopId },
+                update: [
+                    {
+                        $set: {
+                            line: hit.line,
+                            vehicleId: hit.vehicleId,
+                            stopName: hit.stopName,
+                            // Positionerna kan komma i fel ordning, så tidigaste och senaste behålls.
+                            // Förseningen följer träffen som sätter ankomsten.
+                            arrival: { $min: [{ $ifNull: ["$arrival", hit.ts] }, hit.ts] },
+                            departure: { $max: [{ $ifNull: ["$departure", hit.ts] }, hit.ts] },
+                            delay: {
+                                $cond: [
+                                    { $lt: [hit.ts, { $ifNull: ["$arrival", Number.MAX_SAFE_INTEGER] }] },
+                                    hit.delay ?? null,
+                                    "$delay"
+                                ]
+                            },
+                            expireAt: new Date(hit.ts + PASSAGE_RETENTION_MS)
+                        }
+                    },
+                    { $set: { dwell: { $round: [{ $divide: [{ $subtract: ["$departure", "$arrival"] }, 1000] }, 0] } } }
+                ],
+                upsert: true
+            }
+        }));
+        await this.db.collection(PASSAGE_COLLECTION).bulkWrite(ops as any[], { ordered: false });
+    }
+
+    async getPassages(query: PassageQuery): Promise<StopPassage[]> {
+        const filter: Record<string, unknown> = {};
+        if (query.tripId) filter.tripId = query.tripId;
+        if (query.stopId) filter.stopId = query.stopId;
+        if (query.from !== undefined || query.to !== undefined) {
+            filter.arrival = {
+                ...(query.from !== undefined ? { $gte: query.from } : {}),
+                ...(query.to !== undefined ? { $lte: query.to } : {})
+            };
+        }
+
+        return this.db.collection(PASSAGE_COLLECTION)
+            .find<StopPassage>(filter, { projection: { _id: 0, expireAt: 0 } })
+            .sort({ arrival: query.tripId ? 1 : -1 })
+            .limit(query.limit)
+            .toArray();
+    }
+}
+
+export async function createMongoStore(): Promise<MongoStore> {
+    const client = await getMongoClient();
+    const store = new MongoStore(client.db("sl_tracker"));
+    await store.ensureIndexes();
+    return store;
+}
@@ -1,12 +1,6 @@
 
 import { MongoClient } from 'mongodb';
 
-if (!process.env.MONGODB_URI) {
-  throw new Error('Invalid/Missing environment variable: "MONGODB_URI"');
-}
-
-const uri = process.env.MONGODB_URI;
-
 // Filtrera bort DEP0169 (url.parse deprecation) varningar som kan uppstå 
 // i vissa Node-miljöer trots att moderna drivrutiner används.
 // @ts-ignore
@@ -28,24 +22,31 @@ process.emit = (name, data, ...args) => {
 // Inga extra alternativ behövs för senaste drivrutinen
 const options = {};
 
-let client: MongoClient;
-let clientPromise: Promise<MongoClient>;
+let clientPromise: Promise<MongoClient> | null = null;
+
+// Anslutningen skapas först när den behövs, så att modulen kan importeras utan MONGODB_URI
+export function getMongoClient(): Promise<MongoClient> {
+  if (clientPromise) return clientPromise;
 
-console.log("Initializing MongoDB client...");
+  const uri = process.env.MONGODB_URI;
+  if (!uri) {
+    return Promise.reject(new Error('Invalid/Missing environment variable: "MONGODB_URI"'));
+  }
+
+  console.log("Initializing MongoDB client...");
 
-if (process.env.NODE_ENV === 'development') {
-  let globalWithMongo = globalThis as typeof globalThis & {
-    _mongoClientPromise?: Promise<MongoClient>;
-  };
+  if (process.env.NODE_ENV === 'development') {
+    let globalWithMongo = globalThis as typeof globalThis & {
+      _mongoClientPromise?: Promise<MongoClient>;
+    };
 
-  if (!globalWithMongo._mongoClientPromise) {
-    client = new MongoClient(uri, options);
-    globalWithMongo._mongoClientPromise = client.connect();
+    if (!globalWithMongo._mongoClientPromise) {
+      globalWithMongo._mongoClientPromise = new MongoClient(uri, options).connect();
+    }
+    clientPromise = globalWithMongo._mongoClientPromise;
+  } else {
+    clientPromise = new MongoClient(uri, options).connect();
   }
-  clientPromise = globalWithMongo._mongoClientPromise;
-} else {
-  client = new MongoClient(uri, options);
-  clientPromise = client.connect();
-}
 
-export default clientPromise;
+  return clientPromise;
+}
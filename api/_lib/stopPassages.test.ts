@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('getLineStops', () => {
+    const line = {
+        variants: [
+            { stops: [{ id: 'A', name: 'Odenplan', lat: 59.3428, lng: 18.0496 }, { id: 'B', name: 'Stadsbiblioteket', lat: 59.3434, lng: 18.0545 }] },
+            { stops: [{ id: 'B', name: 'Stadsbiblioteket', lat: 59.3434, lng: 18.0545 }] }
+        ]
+    };
+    let available = false;
+    const fetchMock = vi.fn(async () => available ? new Response(JSON.stringify(line)) : new Response('', { status: 503 }));
+
+    beforeEach(() => {
+        vi.resetModules();
+        vi.stubEnv('STATIC_DATA_ORIGIN', 'https://sl-live.example.se');
+        vi.stubGlobal('fetch', fetchMock);
+        fetchMock.mockClear();
+        available = false;
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it('slår ihop varianternas hållplatser och cachar linjen', async () => {
+        available = true;
+        const { getLineStops } = await import('./stopPassages');
+        const stops = await getLineStops(['9011001000400000']);
+        expect(stops.get('9011001000400000')!.map(s => s.id)).toEqual(['A', 'B']);
+
+        await getLineStops(['9011001000400000']);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('cachar inte en linje som inte gick att hämta', async () => {
+        const { getLineStops } = await import('./stopPassages');
+        expect((await getLineStops(['9011001000400000'])).get('9011001000400000')).toEqual([]);
+
+        available = true;
+        expect((await getLineStops(['9011001000400000'])).get('9011001000400000')).toHaveLength(2);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+});
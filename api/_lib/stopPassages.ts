@@ -0,0 +1,102 @@
+import { SLStop } from '../../types';
+import { getDistanceFromLatLonInM } from '../../services/routeGeometry.js';
+import { TrackerStore, PassageHit } from './storage.js';
+import { getStaticOrigin } from './liveSnapshot.js';
+
+// En position inom så här många meter från en hållplats räknas som en passage
+const PASSAGE_RADIUS_M = 50;
+// Linjernas hållplatser ändras bara när GTFS-datan processas om
+const LINE_STOPS_TTL_MS = 1000 * 60 * 60;
+
+export interface PassageSample {
+    tripId: string;
+    line?: string;
+    vehicleId: string;
+    lat: number;
+    lng: number;
+    ts?: number; // fordonets egen rapporttid (ms), kan ligga före insamlingen
+    delay?: number;
+}
+
+const lineStopsCache = new Map<string, { stops: SLStop[]; loadedAt: number }>();
+
+// null när linjen inte gick att hämta, så att den inte cachas som en linje utan hållplatser
+async function fetchLineStops(origin: string, routeId: string): Promise<SLStop[] | null> {
+    try {
+        const res = await fetch(`${origin}/data/lines/${routeId}.json`);
+        if (!res.ok) return null;
+        const lineData = await res.json();
+        // Hållplatser från alla riktningar och varianter, varje hållplats en gång
+        const raw: any[] = Array.isArray(lineData.variants) && lineData.variants.length > 0
+            ? lineData.variants.flatMap((v: any) => v.stops || [])
+            : lineData.stops || [];
+        const unique = new Map<string, SLStop>();
+        raw.forEach((s: any) => unique.set(s.id, { id: s.id, name: s.name, lat: s.lat, lng: s.lng, lines: [] }));
+        return Array.from(unique.values());
+    } catch (e) {
+        return null;
+    }
+}
+
+// Hållplatser per linje, hämtade från den statiska datan. Misslyckade hämtningar
+// cachas inte utan görs om vid nästa anrop.
+export async function getLineStops(routeIds: string[]): Promise<Map<string, SLStop[]>> {
+    const now = Date.now();
+    const missing = routeIds.filter(id => {
+        const cached = lineStopsCache.get(id);
+        return !cached || now - cached.loadedAt > LINE_STOPS_TTL_MS;
+    });
+
+    if (missing.length > 0) {
+        const origin = getStaticOrigin();
+        await Promise.all(missing.map(async id => {
+            const stops = await fetchLineStops(origin, id);
+            if (stops) lineStopsCache.set(id, { stops, loadedAt: now });
+        }));
+    }
+
+    const result = new Map<string, SLStop[]>();
+    routeIds.forEach(id => result.set(id, lineStopsCache.get(id)?.stops || []));
+    return result;
+}
+
+function findStopInRange(stops: SLStop[], lat: number, lng: number): SLStop | null {
+    let best: SLStop | null = null;
+    let bestDistance = PASSAGE_RADIUS_M;
+    for (const stop of stops) {
+        const distance = getDistanceFromLatLonInM(stop.lat, stop.lng, lat, lng);
+        if (distance < bestDistance) {
+            best = stop;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+// Matcha positionerna mot linjens hållplatser och uppdatera passagerna
+export async function recordStopPassages(store: TrackerStore, samples: PassageSample[], now: number) {
+    const routeIds = Array.from(new Set(samples.map(s => s.line).filter((line): line is string => !!line)));
+    if (routeIds.length === 0) return 0;
+
+    const lineStops = await getLineStops(routeIds);
+
+    const hits: PassageHit[] = [];
+    for (const sample of samples) {
+        if (!sample.line) continue;
+        const stop = findStopInRange(lineStops.get(sample.line) || [], sample.lat, sample.lng);
+        if (!stop) continue;
+
+        hits.push({
+            tripId: sample.tripId,
+            stopId: stop.id,
+            stopName: stop.name,
+            line: sample.line,
+            vehicleId: sample.vehicleId,
+            ts: sample.ts ?? now,
+            delay: sample.delay
+        });
+    }
+
+    await store.upsertPassages(hits);
+    return hits.length;
+}
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TrackerStore, TrailSample, PassageHit, TRAIL_RETENTION_MS } from './storage';
+import { MemoryStore } from './memoryStore';
+
+// Beteendet som varje TrackerStore ska uppfylla. Körs mot MemoryStore här,
+// MongoStore kräver en databas och testas inte automatiskt.
+function describeTrackerStore(name: string, createStore: () => TrackerStore) {
+    describe(`${name} (TrackerStore)`, () => {
+        const now = Date.now();
+        const minute = 60 * 1000;
+        let store: TrackerStore;
+
+        const sample = (overrides: Partial<TrailSample>): TrailSample => ({
+            tripId: '14010000668563458',
+            line: '9011001000400000',
+            vehicleId: '9031001004500001',
+            lat: 59.33,
+            lng: 18.06,
+            ts: now,
+            ...overrides
+        });
+
+        const hit = (overrides: Partial<PassageHit>): PassageHit => ({
+            tripId: '14010000668563458',
+            stopId: '9022001010098002',
+            stopName: 'Odenplan',
+            line: '9011001000400000',
+            vehicleId: '9031001004500001',
+            ts: now,
+            ...overrides
+        });
+
+        beforeEach(() => {
+            store = createStore();
+        });
+
+        it('returnerar en resas spår sorterat på tid', async () => {
+            await store.insertTrailPoints([
+                sample({ ts: now - minute, lat: 59.331, delay: 60 }),
+                sample({ ts: now - 3 * minute, lat: 59.333 }),
+                sample({ ts: now - 2 * minute, lat: 59.332, bearing: 90, speed: 30 })
+            ]);
+
+            const trail = await store.getTripTrail('14010000668563458');
+            expect(trail.map(p => p.ts)).toEqual([now - 3 * minute, now - 2 * minute, now - minute]);
+            expect(trail[1]).toMatchObject({ lat: 59.332, bearing: 90, speed: 30 });
+            expect(trail[2].delay).toBe(60);
+            expect(await store.getTripTrail('okänd')).toEqual([]);
+        });
+
+        it('filtrerar linjens spår på tidsfönster', async () => {
+            await store.insertTrailPoints([
+                sample({ ts: now - 30 * minute }),
+                sample({ ts: now - 5 * minute }),
+                sample({ tripId: '14010000668563459', vehicleId: '9031001004500002', ts: now - 4 * minute }),
+                sample({ tripId: '14010000668563460', line: '9011001005000000', ts: now - 4 * minute })
+            ]);
+
+            const trips = await store.getLineTrails('9011001000400000', now - 10 * minute, now);
+            expect(trips.map(t => t.tripId).sort()).toEqual(['14010000668563458', '14010000668563459']);
+            expect(trips.find(t => t.tripId === '14010000668563458')!.path).toHaveLength(1);
+            expect(trips.find(t => t.tripId === '14010000668563459')!.vehicleId).toBe('9031001004500002');
+        });
+
+        it('hämtar ett fordons resor med linje', async () => {
+            await store.insertTrailPoints([
+                sample({ ts: now - 60 * minute }),
+                sample({ tripId: '14010000668563470', ts: now - 10 * minute }),
+                sample({ tripId: '14010000668563471', vehicleId: '9031001004500009', ts: now - 10 * minute })
+            ]);
+
+            const trails = await store.getVehicleTrails('9031001004500001', now - 2 * 60 * minute, now);
+            expect(trails.map(t => t.tripId).sort()).toEqual(['14010000668563458', '14010000668563470']);
+            expect(trails.every(t => t.line === '9011001000400000')).toBe(true);
+        });
+
+        it('ger den senaste förseningen per resa och tidsintervall', async () => {
+            const from = now - 20 * minute;
+            await store.insertTrailPoints([
+                sample({ ts: from + minute, delay: 30 }),
+                sample({ ts: from + 3 * minute, delay: 90 }),
+                sample({ ts: from + 12 * minute, delay: 120 }),
+                sample({ ts: from + 13 * minute })
+            ]);
+
+            const samples = await store.getDelaySamples('9011001000400000', from, now, 10 * minute);
+            const byBucket = new Map(samples.map(s => [s.bucket, s.delay]));
+            expect(byBucket).toEqual(new Map([[0, 90], [1, 120]]));
+        });
+
+        it('räknar ankomst, avgång och uppehållstid för passager', async () => {
+            await store.upsertPassages([hit({ ts: now - 2 * minute, delay: 45 })]);
+            await store.upsertPassages([hit({ ts: now - minute, delay: 80 })]);
+            // En sen uppladdning med en tidigare position flyttar inte avgången bakåt
+            await store.upsertPassages([hit({ ts: now - 90 * 1000 })]);
+            // men en ännu tidigare flyttar ankomsten och tar med sin försening
+            await store.upsertPassages([hit({ ts: now - 3 * minute, delay: 20 })]);
+
+            const [passage] = await store.getPassages({ tripId: '14010000668563458', limit: 10 });
+            expect(passage).toMatchObject({
+                stopId: '9022001010098002',
+                stopName: 'Odenplan',
+                arrival: now - 3 * minute,
+                departure: now - minute,
+                dwell: 120,
+                delay: 20
+            });
+        });
+
+        it('sorterar passager per resa i körordning och per hållplats med senaste först', async () => {
+            await store.upsertPassages([
+                hit({ stopId: 'B', ts: now - 2 * minute }),
+                hit({ stopId: 'A', ts: now - 5 * minute }),
+                hit({ tripId: '14010000668563459', stopId: 'A', ts: now - minute })
+            ]);
+
+            const trip = await store.getPassages({ tripId: '14010000668563458', limit: 10 });
+            expect(trip.map(p => p.stopId)).toEqual(['A', 'B']);
+
+            const stop = await store.getPassages({ stopId: 'A', limit: 10 });
+            expect(stop.map(p => p.tripId)).toEqual(['14010000668563459', '14010000668563458']);
+
+            const limited = await store.getPassages({ stopId: 'A', from: now - 3 * minute, limit: 10 });
+            expect(limited).toHaveLength(1);
+        });
+
+        it('rensar spår äldre än lagringstiden', async () => {
+            await store.insertTrailPoints([
+                sample({ ts: now - TRAIL_RETENTION_MS - minute }),
+                sample({ ts: now - minute })
+            ]);
+            const trail = await store.getTripTrail('14010000668563458');
+            expect(trail.map(p => p.ts)).toEqual([now - minute]);
+        });
+    });
+}
+
+describeTrackerStore('MemoryStore', () => new MemoryStore());
+
+describe('getStore', () => {
+    beforeEach(() => {
+        vi.resetModules();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('väljer minneslagringen bara när den anges uttryckligen', async () => {
+        vi.stubEnv('STORAGE_BACKEND', 'memory');
+        vi.stubEnv('MONGODB_URI', '');
+        const { getStore } = await import('./storage');
+        const { MemoryStore: FreshMemoryStore } = await import('./memoryStore');
+        expect(await getStore()).toBeInstanceOf(FreshMemoryStore);
+    });
+
+    it('ger fel när MongoDB inte är konfigurerad', async () => {
+        vi.stubEnv('STORAGE_BACKEND', '');
+        vi.stubEnv('MONGODB_URI', '');
+        const { getStore } = await import('./storage');
+        await expect(getStore()).rejects.toThrow('MONGODB_URI');
+    });
+
+    it('ger fel för okänd lagring', async () => {
+        vi.stubEnv('STORAGE_BACKEND', 'redis');
+        const { getStore } = await import('./storage');
+        await expect(getStore()).rejects.toThrow('Unknown STORAGE_BACKEND');
+    });
+});
@@ -0,0 +1,93 @@
+import { HistoryPoint, ReplayTrip, StopPassage } from '../../types';
+
+// Gemensamt gränssnitt för all lagring av spår, passager och statistikunderlag.
+// MongoDB används som standard. Den minnesbaserade lagringen (lokalt, i tester) lever bara så länge
+// processen gör och måste väljas uttryckligen med STORAGE_BACKEND=memory, så att en saknad
+// MONGODB_URI i produktion ger fel istället för att data tyst försvinner.
+
+// Spåren delas in i tidsintervall (en resa × BUCKET_MS per dokument i MongoDB)
+export const BUCKET_MS = 1000 * 60 * 10;
+// Hur länge spåren sparas, kan ändras med TRAIL_RETENTION_HOURS
+export const TRAIL_RETENTION_MS = (parseFloat(process.env.TRAIL_RETENTION_HOURS || '') || 24) * 60 * 60 * 1000;
+// Passager sparas längre än spåren så att uppehållstider kan analyseras i efterhand
+export const PASSAGE_RETENTION_MS = 1000 * 60 * 60 * 24 * 7;
+
+export interface TrailSample {
+    tripId: string;
+    line?: string;
+    vehicleId: string;
+    lat: number;
+    lng: number;
+    ts: number;
+    delay?: number;
+    directionId?: number;
+    bearing?: number;
+    speed?: number; // km/h
+}
+
+// Den senaste förseningen en resa rapporterade inom ett tidsintervall (underlag för punktlighet)
+export interface DelaySample {
+    tripId: string;
+    bucket: number; // index räknat från fönstrets början
+    delay: number;
+    ts: number;
+}
+
+// En position inom en hållplats radie. Den tidigaste träffen sätter ankomst och
+// försening, den senaste sätter avgången.
+export interface PassageHit {
+    tripId: string;
+    stopId: string;
+    stopName: string;
+    line: string;
+    vehicleId: string;
+    ts: number;
+    delay?: number;
+}
+
+export interface PassageQuery {
+    tripId?: string;
+    stopId?: string;
+    from?: number;
+    to?: number;
+    limit: number;
+}
+
+// Ett fordons spår för en resa, med linjen (route_id) resan kördes på
+export interface VehicleTrail {
+    tripId: string;
+    line?: string;
+    path: HistoryPoint[];
+}
+
+export interface TrackerStore {
+    insertTrailPoints(samples: TrailSample[]): Promise<void>;
+    getTripTrail(tripId: string): Promise<HistoryPoint[]>;
+    getLineTrails(line: string, from: number, to: number): Promise<ReplayTrip[]>;
+    getVehicleTrails(vehicleId: string, from: number, to: number): Promise<VehicleTrail[]>;
+    getDelaySamples(line: string, from: number, to: number, bucketMs: number): Promise<DelaySample[]>;
+    upsertPassages(hits: PassageHit[]): Promise<void>;
+    // En resa i körordning, en hållplats med de senaste passagerna först
+    getPassages(query: PassageQuery): Promise<StopPassage[]>;
+}
+
+let storePromise: Promise<TrackerStore> | null = null;
+
+export function getStore(): Promise<TrackerStore> {
+    if (!storePromise) {
+        const backend = process.env.STORAGE_BACKEND || 'mongo';
+        if (backend === 'mongo') {
+            if (!process.env.MONGODB_URI) {
+                return Promise.reject(new Error('MONGODB_URI is not set (use STORAGE_BACKEND=memory for local runs)'));
+            }
+            storePromise = import('./mongoStore.js').then(m => m.createMongoStore());
+        } else if (backend === 'memory') {
+            storePromise = import('./memoryStore.js').then(m => new m.MemoryStore());
+        } else {
+            return Promise.reject(new Error(`Unknown STORAGE_BACKEND: ${backend}`));
+        }
+        // Misslyckad anslutning ska inte cachas, nästa anrop försöker igen
+        storePromise.catch(() => { storePromise = null; });
+    }
+    return storePromise;
+}
@@ -0,0 +1,32 @@
+import { getDistanceFromLatLonInM } from '../../services/routeGeometry.js';
+import { TrackerStore, TrailSample } from './storage.js';
+
+// Ett fordon som rört sig mindre än så här räknas som stillastående...
+const STATIONARY_DISTANCE_M = 10;
+// ...men en punkt sparas ändå med det här intervallet så att spåret inte ser avbrutet ut
+const STATIONARY_KEEPALIVE_MS = 1000 * 60 * 2;
+
+// Senast sparade punkt per resa i den här instansen, för att slippa lagra stillastående fordon
+const lastStored = new Map<string, { lat: number; lng: number; ts: number }>();
+
+function isStationary(sample: TrailSample) {
+    const last = lastStored.get(sample.tripId);
+    if (!last) return false;
+    return sample.ts - last.ts < STATIONARY_KEEPALIVE_MS &&
+        getDistanceFromLatLonInM(last.lat, last.lng, sample.lat, sample.lng) < STATIONARY_DISTANCE_M;
+}
+
+// Spara nya positioner, utom de där fordonet inte rört sig sedan förra punkten
+export async function appendTrailPoints(store: TrackerStore, samples: TrailSample[]) {
+    const toStore = samples.filter(s => !isStationary(s));
+    if (toStore.length === 0) return { stored: 0, skipped: samples.length };
+
+    await store.insertTrailPoints(toStore);
+    toStore.forEach(s => lastStored.set(s.tripId, { lat: s.lat, lng: s.lng, ts: s.ts }));
+
+    // Håll minnet nere: glöm resor som inte rapporterat på ett tag
+    const cutoff = Date.now() - STATIONARY_KEEPALIVE_MS * 2;
+    lastStored.forEach((p, tripId) => { if (p.ts < cutoff) lastStored.delete(tripId); });
+
+    return { stored: toStore.length, skipped: samples.length - toStore.length };
+}
@@ -1,141 +1,86 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-// @ts-ignore
-import clientPromise from './_lib/mongodb.js';
-import protobuf from 'protobufjs';
+import { decodeFeed } from '../services/gtfsRealtime.js';
+import { TripUpdateInfo, parseTripUpdates, getCurrentDelay } from '../services/vehicleBuilder.js';
+import { recordStopPassages } from './_lib/stopPassages.js';
+import { appendTrailPoints } from './_lib/trailStore.js';
+import { getStore, TrackerStore, TrailSample } from './_lib/storage.js';
 
 const API_ENDPOINT = 'https://opendata.samtrafiken.se/gtfs-rt-sweden/sl/VehiclePositionsSweden.pb';
-
-// Protobuf-definition
-const PROTO_DEF = `
-syntax = "proto2";
-package transit_realtime;
-message FeedMessage { required FeedHeader header = 1; repeated FeedEntity entity = 2; }
-message FeedHeader { required string gtfs_realtime_version = 1; optional Incrementality incrementality = 2 [default = FULL_DATASET]; optional uint64 timestamp = 3; enum Incrementality { FULL_DATASET = 0; DIFFERENTIAL = 1; } }
-message FeedEntity { required string id = 1; optional bool is_deleted = 2 [default = false]; optional TripUpdate trip_update = 3; optional VehiclePosition vehicle = 4; optional Alert alert = 5; }
-message VehiclePosition { optional TripDescriptor trip = 1; optional VehicleDescriptor vehicle = 8; optional Position position = 2; optional uint64 timestamp = 5; }
-message TripUpdate { optional TripDescriptor trip = 1; repeated StopTimeUpdate stop_time_update = 2; }
-message StopTimeUpdate { optional uint32 stop_sequence = 1; optional string stop_id = 4; optional StopTimeEvent arrival = 2; optional StopTimeEvent departure = 3; }
-message StopTimeEvent { optional int32 delay = 1; optional int64 time = 2; optional int32 uncertainty = 3; }
-message TripDescriptor { optional string trip_id = 1; optional string route_id = 5; optional uint32 direction_id = 6; }
-message VehicleDescriptor { optional string id = 1; optional string label = 2; optional string license_plate = 3; }
-message Position { required float latitude = 1; required float longitude = 2; optional float bearing = 3; optional float speed = 5; }
-message Alert {}
-`;
+const TRIP_UPDATES_ENDPOINT = 'https://opendata.samtrafiken.se/gtfs-rt-sweden/sl/TripUpdatesSweden.pb';
 
 // Helper function to fetch and save data once
-async function fetchAndSaveData(apiKey: string, db: any) {
-    const response = await fetch(`${API_ENDPOINT}?key=${apiKey}`);
+async function fetchAndSaveData(apiKey: string, store: TrackerStore) {
+    // VehiclePositions innehåller inga trip_update-entiteter, så förseningarna hämtas parallellt
+    const [response, updatesResponse] = await Promise.all([
+        fetch(`${API_ENDPOINT}?key=${apiKey}`),
+        fetch(`${TRIP_UPDATES_ENDPOINT}?key=${apiKey}`).catch(() => null)
+    ]);
     if (!response.ok) throw new Error(`Upstream API failed: ${response.status}`);
     
-    const arrayBuffer = await response.arrayBuffer();
-    const root = protobuf.parse(PROTO_DEF).root;
-    const FeedMessage = root.lookupType("transit_realtime.FeedMessage");
-    const message = FeedMessage.decode(new Uint8Array(arrayBuffer));
-    
-    const object = FeedMessage.toObject(message, { 
-        enums: String, 
-        longs: String, 
-        defaults: true 
-    });
-    
-    const entities = object.entity || [];
+    const entities = decodeFeed(await response.arrayBuffer()).entity;
     
     if (entities.length === 0) {
         return { saved: 0, message: "0 entities returned" };
     }
 
-    // 1. Skapa en map med förseningar från TripUpdates (finns ofta i samma feed eller relaterade)
-    // Eftersom detta API främst är VehiclePositions kanske TripUpdates är glesa, men vi försöker hitta dem.
-    // Om API:et enbart returnerar VehiclePositions här måste vi förlita oss på att TripUpdates hämtas separat,
-    // men för enkelhetens skull i cron-jobbet kollar vi om entiteterna innehåller trip_updates.
-    const tripDelays: Record<string, number> = {};
-    
-    entities.forEach((e: any) => {
-        if (e.tripUpdate && e.tripUpdate.trip && e.tripUpdate.trip.tripId) {
-            const updates = e.tripUpdate.stopTimeUpdate;
-            if (updates && updates.length > 0) {
-                // Ta första bästa försening
-                const first = updates[0];
-                let delay = undefined;
-                if (first.arrival?.delay !== undefined) delay = parseInt(first.arrival.delay);
-                else if (first.departure?.delay !== undefined) delay = parseInt(first.departure.delay);
-                
-                if (delay !== undefined) {
-                    tripDelays[e.tripUpdate.trip.tripId] = delay;
-                }
-            }
-        }
-    });
+    // Saknas TripUpdates sparas positionerna ändå, bara utan försening
+    let tripInfoMap = new Map<string, TripUpdateInfo>();
+    if (updatesResponse && updatesResponse.ok) {
+        tripInfoMap = parseTripUpdates(decodeFeed(await updatesResponse.arrayBuffer()).entity);
+    } else {
+        console.warn(`TripUpdates unavailable: ${updatesResponse?.status ?? 'network error'}`);
+    }
 
     const now = Date.now();
-    const expireTime = new Date(now + 2 * 60 * 60 * 1000); 
 
     const validVehicles = entities
-        .map((e: any) => {
-            if (!e.vehicle || !e.vehicle.trip) return null;
-            const trip = e.vehicle.trip;
-            const tripId = trip.tripId || trip.trip_id;
-            const routeId = trip.routeId || trip.route_id;
+        .map((e): TrailSample | null => {
+            const v = e.vehicle;
+            const trip = v?.trip;
+            const position = v?.position;
+            if (!v || !trip || !position) return null;
+            const tripId = trip.tripId;
 
             if (!tripId) return null;
 
-            // Försök hitta försening om vi lyckades mappa den, annars undefined
-            // Notera: i GTFS-RT VehiclePositions feeds skickas sällan TripUpdates i samma meddelande.
-            // Men om det finns, använder vi det.
-            const delay = tripDelays[tripId];
+            // Förseningen tas från den hållplats fordonet är på väg till, inte resans första
+            const info = tripInfoMap.get(tripId);
+            const delay = info ? getCurrentDelay(info, now, v.stopId, v.currentStopSequence) : undefined;
 
             return {
                 tripId: tripId,
-                line: routeId, 
-                vehicleId: e.vehicle.vehicle?.id || e.id,
-                lat: e.vehicle.position?.latitude,
-                lng: e.vehicle.position?.longitude,
-                ts: now,
-                delay: delay
+                line: trip.routeId || info?.routeId, 
+                vehicleId: v.vehicle?.id || e.id,
+                lat: position.latitude,
+                lng: position.longitude,
+                ts: v.timestamp ? v.timestamp * 1000 : now,
+                delay: delay,
+                directionId: trip.directionId ?? info?.directionId,
+                bearing: position.bearing,
+                speed: position.speed !== undefined ? Math.round(position.speed * 3.6) : undefined
             };
         })
-        .filter((v: any) => v !== null && v.lat !== undefined && v.lng !== undefined);
+        .filter((v): v is TrailSample => v !== null);
 
     if (validVehicles.length === 0) {
         return { saved: 0, message: "No valid vehicles found" };
     }
 
-    const collection = db.collection("vehicle_trails");
-    
-    // Ensure indexes exist (doing this every loop is cheap if they exist)
-    await collection.createIndex({ tripId: 1 }, { unique: true });
-    await collection.createIndex({ expireAt: 1 }, { expireAfterSeconds: 0 }); 
-
-    const ops = validVehicles.map((v: any) => ({
-        updateOne: {
-          filter: { tripId: v.tripId },
-          update: {
-            $set: {
-              line: v.line,
-              vehicleId: v.vehicleId,
-              expireAt: expireTime,
-              lastUpdate: now
-            },
-            $push: {
-              trail: {
-                lat: v.lat,
-                lng: v.lng,
-                ts: now,
-                delay: v.delay // Spara undan förseningen om den finns
-              }
-            }
-          },
-          upsert: true
-        }
-    }));
+    const { stored, skipped } = await appendTrailPoints(store, validVehicles);
 
-    const result = await collection.bulkWrite(ops as any[], { ordered: false });
+    // Hållplatspassager och uppehållstider räknas fram direkt vid insamlingen
+    let passages = 0;
+    try {
+        passages = await recordStopPassages(store, validVehicles, now);
+    } catch (err) {
+        console.error("Stop passage detection failed:", err);
+    }
 
     return { 
-        saved: ops.length, 
-        modified: result.modifiedCount,
-        upserted: result.upsertedCount 
+        saved: stored, 
+        stationary: skipped,
+        passages
     };
 }
 
@@ -160,8 +105,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const startTime = Date.now();
 
   try {
-    const client = await clientPromise;
-    const db = client.db("sl_tracker");
+    const store = await getStore();
     
     const results = [];
     let iterations = 0;
@@ -173,7 +117,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
         try {
             console.log(`Cron iteration ${iterations} starting at ${new Date().toISOString()}`);
-            const result = await fetchAndSaveData(apiKey, db);
+            const result = await fetchAndSaveData(apiKey, store);
             results.push({ iteration: iterations, timestamp: Date.now(), ...result });
         } catch (err: any) {
             console.error(`Error in iteration ${iterations}:`, err);
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStore } from '../_lib/storage.js';
+import { TRAIL_EXPORT_FORMATS, parseTrailExportFormat, trailToGeoJSON, trailToGpx, trailToCsv } from '../../services/exportFormats.js';
+
+// Ladda ner en resas sparade spår som GeoJSON, GPX eller CSV
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { tripId } = req.query;
+  const format = parseTrailExportFormat(req.query.format);
+
+  if (!tripId || typeof tripId !== 'string') {
+    return res.status(400).json({ error: 'Missing tripId' });
+  }
+  if (!format) {
+    return res.status(400).json({ error: `format must be one of ${Object.keys(TRAIL_EXPORT_FORMATS).join(', ')}` });
+  }
+
+  try {
+    const store = await getStore();
+    const path = await store.getTripTrail(tripId);
+    if (path.length === 0) {
+      return res.status(404).json({ error: 'No stored trail for trip' });
+    }
+
+    const { contentType, extension } = TRAIL_EXPORT_FORMATS[format];
+    const body = format === 'gpx'
+      ? trailToGpx(tripId, path)
+      : format === 'csv'
+        ? trailToCsv(tripId, path)
+        : JSON.stringify(trailToGeoJSON(tripId, path));
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="trip-${tripId.replace(/[^\w.-]/g, '_')}.${extension}"`);
+    return res.status(200).send(body);
+  } catch (error) {
+    console.error("Trail export error:", error);
+    return res.status(500).json({ error: 'Failed to export trail.' });
+  }
+}
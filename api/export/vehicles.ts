@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { filterVehicles } from '../../services/vehicleBuilder.js';
+import { vehiclesToGeoJSON } from '../../services/exportFormats.js';
+import { getSnapshot, parseFilter } from '../_lib/liveSnapshot.js';
+
+// Aktuella fordonslägen som GeoJSON FeatureCollection. Tar samma filter som /api/vehicles.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const apiKey = process.env.RT_API_KEY;
+
+  if (!apiKey) {
+    return res.status(500).json({ error: 'API key is not configured on the server.' });
+  }
+
+  const filter = parseFilter(req.query);
+  if (typeof filter === 'string') {
+    return res.status(400).json({ error: filter });
+  }
+
+  try {
+    const snapshot = await getSnapshot(apiKey);
+    const collection = vehiclesToGeoJSON(filterVehicles(snapshot.vehicles, filter), snapshot.timestamp);
+    const stamp = new Date(snapshot.timestamp).toISOString().replace(/[:.]/g, '-');
+
+    res.setHeader('Content-Type', 'application/geo+json');
+    res.setHeader('Content-Disposition', `attachment; filename="vehicles-${stamp}.geojson"`);
+    return res.status(200).send(JSON.stringify(collection));
+  } catch (error) {
+    console.error('Error in vehicle export endpoint:', error);
+    return res.status(500).json({ error: 'Failed to build vehicle snapshot.' });
+  }
+}
@@ -1,7 +1,6 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-// @ts-ignore
-import clientPromise from './_lib/mongodb.js';
+import { getStore } from './_lib/storage.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   const { tripId } = req.query;
@@ -11,31 +10,14 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const client = await clientPromise;
-    const db = client.db("sl_tracker");
+    const store = await getStore();
     
-    const trip = await db.collection("vehicle_trails").findOne(
-      { tripId: tripId },
-      { projection: { trail: 1, _id: 0 } }
-    );
-
-    if (!trip) {
-      return res.status(200).json({ path: [] });
-    }
-
     // Returnera objekt med lat, lng, ts och delay
-    const path = (trip.trail as any[])
-        .sort((a, b) => a.ts - b.ts)
-        .map(p => ({
-            lat: p.lat, 
-            lng: p.lng, 
-            ts: p.ts,
-            delay: p.delay // Skicka med delay om det finns
-        }));
+    const path = await store.getTripTrail(tripId);
 
     return res.status(200).json({ path });
   } catch (error) {
     console.error("History fetch error:", error);
-    return res.status(200).json({ path: [] });
+    return res.status(500).json({ error: 'Failed to fetch history.', path: [] });
   }
 }
@@ -1,69 +1,92 @@
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-// @ts-ignore
-import clientPromise from './_lib/mongodb.js';
+import { recordStopPassages } from './_lib/stopPassages.js';
+import { appendTrailPoints } from './_lib/trailStore.js';
+import { getStore, TrailSample } from './_lib/storage.js';
+import { authenticateIngest, checkRateLimit, isIngestEnabled } from './_lib/ingestAuth.js';
+import { validateVehicle, readRawBody, IngestRejection, MAX_BODY_BYTES, MAX_VEHICLES_PER_REQUEST } from './_lib/ingestValidation.js';
 
+// Kroppen läses och storleksbegränsas i handlern, inte av den inbyggda JSON-tolken
+export const config = { api: { bodyParser: false } };
+
+// Positioner från partners ombordenheter. Kräver klientnyckel och varje fordon valideras
+// innan det sparas, så att ingen kan förgifta historiken.
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  if (!process.env.MONGODB_URI) {
-    return res.status(500).json({ error: 'Server misconfiguration' });
+  if (!isIngestEnabled()) {
+    return res.status(503).json({ error: 'Ingest is disabled' });
+  }
+
+  const client = authenticateIngest(req);
+  if (!client) {
+    return res.status(401).json({ error: 'Unauthorized' });
   }
 
-  const { vehicles } = req.body;
+  const now = Date.now();
+  const limit = checkRateLimit(client.clientId, now);
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(limit.retryAfter));
+    return res.status(429).json({ error: 'Rate limit exceeded' });
+  }
 
-  if (!vehicles || !Array.isArray(vehicles) || vehicles.length === 0) {
-    return res.status(200).json({ message: 'No data' });
+  const raw = await readRawBody(req, MAX_BODY_BYTES);
+  if (!raw) {
+    return res.status(413).json({ error: `Payload larger than ${MAX_BODY_BYTES} bytes` });
   }
 
+  let body: unknown;
   try {
-    const client = await clientPromise;
-    const db = client.db("sl_tracker");
-    const collection = db.collection("vehicle_trails");
+    body = JSON.parse(raw.toString('utf8'));
+  } catch {
+    return res.status(400).json({ error: 'Body must be valid JSON' });
+  }
 
-    await collection.createIndex({ tripId: 1 }, { unique: true });
-    await collection.createIndex({ expireAt: 1 }, { expireAfterSeconds: 0 }); 
+  const vehicles = body && typeof body === 'object' ? (body as { vehicles?: unknown }).vehicles : undefined;
+  if (!Array.isArray(vehicles)) {
+    return res.status(400).json({ error: 'Body must be { vehicles: [...] }' });
+  }
+  if (vehicles.length > MAX_VEHICLES_PER_REQUEST) {
+    return res.status(413).json({ error: `At most ${MAX_VEHICLES_PER_REQUEST} vehicles per request` });
+  }
 
-    const now = Date.now();
-    const expireTime = new Date(now + 4 * 60 * 60 * 1000);
+  const samples: TrailSample[] = [];
+  const rejected: IngestRejection[] = [];
+  vehicles.forEach((v: unknown, index: number) => {
+    const result = validateVehicle(v, index, now);
+    if ('sample' in result) samples.push(result.sample);
+    else rejected.push(result.rejection);
+  });
 
-    const validVehicles = vehicles.filter((v: any) => v.tripId && typeof v.tripId === 'string');
-    
-    if (validVehicles.length === 0) {
-        return res.status(200).json({ message: 'No valid vehicles found' });
-    }
+  if (rejected.length > 0) {
+    console.warn(`Ingest from ${client.clientId}: rejected ${rejected.length}/${vehicles.length}`);
+  }
 
-    const ops = validVehicles.map((v: any) => ({
-        updateOne: {
-          filter: { tripId: v.tripId },
-          update: {
-            $set: {
-              line: v.line,
-              vehicleId: v.id,
-              expireAt: expireTime,
-              lastUpdate: now
-            },
-            $push: {
-              trail: {
-                lat: v.lat,
-                lng: v.lng,
-                ts: now
-              }
-            }
-          },
-          upsert: true
-        }
-    }));
+  try {
+    const store = await getStore();
+    const { stored, skipped } = samples.length > 0
+      ? await appendTrailPoints(store, samples)
+      : { stored: 0, skipped: 0 };
 
-    const result = await collection.bulkWrite(ops as any[], { ordered: false });
+    // Uppladdningar kan komma i efterhand, passagerna får fordonens egna tidsstämplar
+    let passages = 0;
+    try {
+        if (samples.length > 0) passages = await recordStopPassages(store, samples, now);
+    } catch (err) {
+        console.error("Stop passage detection failed:", err);
+    }
 
-    return res.status(200).json({ 
-        success: true, 
-        count: ops.length, 
-        modified: result.modifiedCount,
-        upserted: result.upsertedCount 
+    // 422 när inget gick att ta emot, annars 200 med rapport över det som avvisades
+    return res.status(samples.length === 0 && rejected.length > 0 ? 422 : 200).json({
+        success: samples.length > 0 || vehicles.length === 0,
+        received: vehicles.length,
+        accepted: samples.length,
+        count: stored,
+        stationary: skipped,
+        passages,
+        rejected
     });
 
   } catch (error: any) {
@@ -0,0 +1,41 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStore } from './_lib/storage.js';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Hållplatspassager (ankomst, avgång, uppehållstid, försening) per resa eller per hållplats
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { tripId, stopId } = req.query;
+
+  if ((!tripId || typeof tripId !== 'string') && (!stopId || typeof stopId !== 'string')) {
+    return res.status(400).json({ error: 'Missing tripId or stopId' });
+  }
+
+  const limit = req.query.limit ? parseInt(req.query.limit as string) : DEFAULT_LIMIT;
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT}` });
+  }
+
+  const from = req.query.from ? parseInt(req.query.from as string) : undefined;
+  const to = req.query.to ? parseInt(req.query.to as string) : undefined;
+  if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+    return res.status(400).json({ error: 'from and to must be timestamps in ms' });
+  }
+
+  try {
+    const store = await getStore();
+    const passages = await store.getPassages({
+      tripId: typeof tripId === 'string' ? tripId : undefined,
+      stopId: typeof stopId === 'string' ? stopId : undefined,
+      from,
+      to,
+      limit
+    });
+
+    return res.status(200).json({ passages });
+  } catch (error) {
+    console.error("Passages fetch error:", error);
+    return res.status(500).json({ error: 'Failed to fetch passages.' });
+  }
+}
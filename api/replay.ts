@@ -0,0 +1,30 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStore } from './_lib/storage.js';
+
+// Uppspelningen tar ett par timmar åt gången för att hålla svaret rimligt stort
+const MAX_WINDOW_MS = 1000 * 60 * 60 * 3;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { routeId } = req.query;
+  const from = parseInt(req.query.from as string);
+  const to = parseInt(req.query.to as string);
+
+  if (!routeId || typeof routeId !== 'string') {
+    return res.status(400).json({ error: 'Missing routeId' });
+  }
+  if (isNaN(from) || isNaN(to) || to <= from) {
+    return res.status(400).json({ error: 'from and to must be timestamps in ms with from < to' });
+  }
+  if (to - from > MAX_WINDOW_MS) {
+    return res.status(400).json({ error: 'Time window may be at most 3 hours' });
+  }
+
+  try {
+    const store = await getStore();
+    const trips = await store.getLineTrails(routeId, from, to);
+    return res.status(200).json({ from, to, trips });
+  } catch (error) {
+    console.error("Replay fetch error:", error);
+    return res.status(500).json({ error: 'Failed to fetch replay data.' });
+  }
+}
@@ -0,0 +1,86 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getStore, DelaySample } from '../_lib/storage.js';
+
+// En resa räknas som i tid om den är högst 1 min före och högst 3 min efter tidtabellen
+const EARLY_THRESHOLD_S = -60;
+const LATE_THRESHOLD_S = 180;
+
+const DEFAULT_WINDOW_MS = 1000 * 60 * 60 * 2;
+const MAX_WINDOW_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_BUCKET_MIN = 15;
+
+function percentile(sorted: number[], p: number) {
+    if (sorted.length === 0) return null;
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[index];
+}
+
+// Sammanfatta en resa per rad (den senast rapporterade förseningen)
+function summarize(samples: DelaySample[]) {
+    const delays = samples.map(s => s.delay).sort((a, b) => a - b);
+    return {
+        trips: samples.length,
+        onTime: samples.filter(s => s.delay >= EARLY_THRESHOLD_S && s.delay <= LATE_THRESHOLD_S).length,
+        late: samples.filter(s => s.delay > LATE_THRESHOLD_S).length,
+        early: samples.filter(s => s.delay < EARLY_THRESHOLD_S).length,
+        medianDelay: percentile(delays, 0.5),
+        p90Delay: percentile(delays, 0.9)
+    };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { routeId } = req.query;
+  if (!routeId || typeof routeId !== 'string') {
+    return res.status(400).json({ error: 'Missing routeId' });
+  }
+
+  const to = req.query.to ? parseInt(req.query.to as string) : Date.now();
+  const from = req.query.from ? parseInt(req.query.from as string) : to - DEFAULT_WINDOW_MS;
+  const bucketMinutes = req.query.bucket ? parseInt(req.query.bucket as string) : DEFAULT_BUCKET_MIN;
+
+  if (isNaN(from) || isNaN(to) || to <= from) {
+    return res.status(400).json({ error: 'from and to must be timestamps in ms with from < to' });
+  }
+  if (to - from > MAX_WINDOW_MS) {
+    return res.status(400).json({ error: 'Time window may be at most 24 hours' });
+  }
+  if (isNaN(bucketMinutes) || bucketMinutes < 1) {
+    return res.status(400).json({ error: 'bucket must be a positive number of minutes' });
+  }
+  const bucketMs = bucketMinutes * 60 * 1000;
+
+  try {
+    const store = await getStore();
+
+    // En rad per resa och tidsintervall, med den senaste förseningen resan rapporterade i intervallet
+    const samples = await store.getDelaySamples(routeId, from, to, bucketMs);
+
+    const byBucket = new Map<number, DelaySample[]>();
+    const latestByTrip = new Map<string, DelaySample>();
+    for (const s of samples) {
+        if (!byBucket.has(s.bucket)) byBucket.set(s.bucket, []);
+        byBucket.get(s.bucket)!.push(s);
+        const latest = latestByTrip.get(s.tripId);
+        if (!latest || s.ts > latest.ts) latestByTrip.set(s.tripId, s);
+    }
+
+    const bucketCount = Math.ceil((to - from) / bucketMs);
+    const buckets = [];
+    for (let i = 0; i < bucketCount; i++) {
+        buckets.push({ start: from + i * bucketMs, ...summarize(byBucket.get(i) || []) });
+    }
+
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=60');
+    return res.status(200).json({
+      routeId,
+      from,
+      to,
+      bucketMinutes,
+      total: summarize(Array.from(latestByTrip.values())),
+      buckets
+    });
+  } catch (error) {
+    console.error("Line stats error:", error);
+    return res.status(500).json({ error: 'Failed to compute line statistics.' });
+  }
+}
@@ -0,0 +1,57 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { VehicleDayTrip } from '../types';
+import { getStore } from './_lib/storage.js';
+import { getStaticLookups } from './_lib/liveSnapshot.js';
+
+// Ett dygn räcker för "dagens" resor och motsvarar normal lagringstid
+const MAX_WINDOW_MS = 1000 * 60 * 60 * 24;
+
+// Ett fordons alla sparade resor, uppdelade per tripId med linje och destination
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const { vehicleId } = req.query;
+
+  if (!vehicleId || typeof vehicleId !== 'string') {
+    return res.status(400).json({ error: 'Missing vehicleId' });
+  }
+
+  const to = req.query.to ? parseInt(req.query.to as string) : Date.now();
+  const from = req.query.from ? parseInt(req.query.from as string) : to - MAX_WINDOW_MS;
+  if (isNaN(from) || isNaN(to) || to <= from) {
+    return res.status(400).json({ error: 'from and to must be timestamps in ms with from < to' });
+  }
+  if (to - from > MAX_WINDOW_MS) {
+    return res.status(400).json({ error: 'Time window may be at most 24 hours' });
+  }
+
+  try {
+    const store = await getStore();
+    const [trails, lookups] = await Promise.all([
+      store.getVehicleTrails(vehicleId, from, to),
+      getStaticLookups()
+    ]);
+
+    const trips: VehicleDayTrip[] = trails.map(trail => {
+      const routeId = trail.line || lookups.tripToRoute?.[trail.tripId]?.r;
+      const lastPoint = trail.path[trail.path.length - 1];
+      const directionHeadsign = routeId && lastPoint.directionId !== undefined
+        ? lookups.routeDirections?.[routeId]?.[String(lastPoint.directionId)]
+        : undefined;
+
+      return {
+        tripId: trail.tripId,
+        routeId,
+        line: routeId ? lookups.routeNames?.get(routeId) : undefined,
+        headsign: lookups.tripToRoute?.[trail.tripId]?.h || directionHeadsign || "Okänd",
+        start: trail.path[0].ts,
+        end: lastPoint.ts,
+        path: trail.path
+      };
+    });
+    trips.sort((a, b) => a.start - b.start);
+
+    return res.status(200).json({ vehicleId, from, to, trips });
+  } catch (error) {
+    console.error("Vehicle history fetch error:", error);
+    return res.status(500).json({ error: 'Failed to fetch vehicle history.' });
+  }
+}
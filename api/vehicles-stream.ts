@@ -0,0 +1,77 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { SLVehicle } from '../types';
+import { filterVehicles, diffVehicles } from '../services/vehicleBuilder.js';
+import { getSnapshot, getSnapshotAt, parseFilter } from './_lib/liveSnapshot.js';
+
+// Strömmen stängs i god tid före funktionens maxDuration (60 s), så att en långsam
+// uppströmshämtning hinner klart. EventSource återansluter då med Last-Event-ID.
+const STREAM_DURATION_MS = 45000;
+const POLL_INTERVAL_MS = 2500;
+const RECONNECT_DELAY_MS = 1000;
+
+function sendEvent(res: VercelResponse, event: string, id: number, data: unknown) {
+    res.write(`event: ${event}\nid: ${id}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const apiKey = process.env.RT_API_KEY;
+
+  if (!apiKey) {
+    return res.status(500).json({ error: 'API key is not configured on the server.' });
+  }
+
+  const filter = parseFilter(req.query);
+  if (typeof filter === 'string') {
+    return res.status(400).json({ error: filter });
+  }
+
+  // Resume token: timestamp för den senaste ögonblicksbilden klienten har fått
+  const resumeToken = parseInt((req.headers['last-event-id'] as string) || (req.query.since as string) || '');
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.status(200);
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  const startTime = Date.now();
+
+  try {
+    const first = await getSnapshot(apiKey);
+    let lastSent: SLVehicle[] = filterVehicles(first.vehicles, filter);
+    let lastTimestamp = first.timestamp;
+
+    const resumeFrom = !isNaN(resumeToken) ? getSnapshotAt(resumeToken) : null;
+    if (resumeFrom) {
+        const previous = filterVehicles(resumeFrom.vehicles, filter);
+        sendEvent(res, 'diff', lastTimestamp, diffVehicles(previous, lastSent, first.vehicles.length, lastTimestamp, first.feedTimestamp));
+    } else {
+        sendEvent(res, 'snapshot', lastTimestamp, { vehicles: lastSent, total: first.vehicles.length, timestamp: lastTimestamp, feedTimestamp: first.feedTimestamp });
+    }
+
+    // Ingen ny hämtning påbörjas om den skulle starta efter STREAM_DURATION_MS
+    while (!closed && (Date.now() - startTime) + POLL_INTERVAL_MS < STREAM_DURATION_MS) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        if (closed) break;
+
+        const snapshot = await getSnapshot(apiKey);
+        if (snapshot.timestamp === lastTimestamp) continue;
+
+        const current = filterVehicles(snapshot.vehicles, filter);
+        const diff = diffVehicles(lastSent, current, snapshot.vehicles.length, snapshot.timestamp, snapshot.feedTimestamp);
+        // Skicka även tomma diffar så att klienten ser att flödet lever (feedTimestamp)
+        sendEvent(res, 'diff', snapshot.timestamp, diff);
+        lastSent = current;
+        lastTimestamp = snapshot.timestamp;
+    }
+  } catch (error: any) {
+    console.error('Error in vehicles stream:', error);
+    res.write(`event: stream-error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
+  }
+
+  res.end();
+}
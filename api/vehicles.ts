@@ -0,0 +1,31 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { filterVehicles } from '../services/vehicleBuilder.js';
+import { getSnapshot, parseFilter } from './_lib/liveSnapshot.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const apiKey = process.env.RT_API_KEY;
+
+  if (!apiKey) {
+    return res.status(500).json({ error: 'API key is not configured on the server.' });
+  }
+
+  const filter = parseFilter(req.query);
+  if (typeof filter === 'string') {
+    return res.status(400).json({ error: filter });
+  }
+
+  try {
+    const snapshot = await getSnapshot(apiKey);
+
+    res.setHeader('Cache-Control', 's-maxage=1, stale-while-revalidate=1');
+    return res.status(200).json({
+        vehicles: filterVehicles(snapshot.vehicles, filter),
+        total: snapshot.vehicles.length,
+        timestamp: snapshot.timestamp,
+        feedTimestamp: snapshot.feedTimestamp
+    });
+  } catch (error) {
+    console.error('Error in vehicles endpoint:', error);
+    return res.status(500).json({ error: 'Failed to build vehicle snapshot.' });
+  }
+}
@@ -0,0 +1,103 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, Loader2 } from 'lucide-react';
+import { slService, LineManifestEntry } from '../services/slService';
+import { StopDeparture } from '../types';
+
+interface DepartureBoardProps {
+  stopIds: string[]; // alla lägen på stationen
+  routeManifest: Map<string, LineManifestEntry>;
+}
+
+const DEPARTURE_REFRESH_MS = 30000;
+const MAX_DEPARTURES = 12;
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+const getDelayBadge = (departure: StopDeparture) => {
+  if (departure.isCancelled) return { text: "Inställd", color: "text-red-600" };
+  if (departure.delay === undefined) return null;
+  const delayMin = Math.round(departure.delay / 60);
+  if (Math.abs(departure.delay) < 60) return { text: "I tid", color: "text-emerald-600" };
+  if (departure.delay > 0) return { text: `+${delayMin} min`, color: "text-red-600" };
+  return { text: `${delayMin} min`, color: "text-blue-600" };
+};
+
+const DepartureBoard: React.FC<DepartureBoardProps> = ({ stopIds, routeManifest }) => {
+  const [departures, setDepartures] = useState<StopDeparture[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    const fetchDepartures = async () => {
+      const perStop = await Promise.all(stopIds.map(id => slService.getStopDepartures(id, MAX_DEPARTURES)));
+      // Lägenas avgångar i en gemensam lista, sorterad på förväntad tid
+      const data = perStop.flat()
+        .sort((a, b) => (a.predicted ?? a.scheduled) - (b.predicted ?? b.scheduled))
+        .slice(0, MAX_DEPARTURES);
+      if (!cancelled) {
+        setDepartures(data);
+        setLoading(false);
+      }
+    };
+
+    fetchDepartures();
+    const interval = setInterval(fetchDepartures, DEPARTURE_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [stopIds.join(',')]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-400 py-2">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" /> Hämtar avgångar...
+      </div>
+    );
+  }
+
+  if (departures.length === 0) {
+    return <div className="text-xs text-slate-400 py-2">Inga avgångar den närmaste tiden</div>;
+  }
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center gap-1.5 text-[10px] font-semibold text-gray-400 uppercase tracking-tighter mb-1">
+        <Clock className="w-3 h-3" /> Avgångar
+      </div>
+      <table className="w-full text-xs">
+        <tbody>
+          {departures.map(d => {
+            const line = routeManifest.get(d.routeId)?.line || '?';
+            const badge = getDelayBadge(d);
+            return (
+              <tr key={`${d.tripId}-${d.scheduled}`} className="border-t border-gray-100">
+                <td className="py-1 pr-2 font-bold text-blue-600 whitespace-nowrap">{line}</td>
+                <td className={`py-1 pr-2 truncate max-w-[120px] ${d.isCancelled ? 'line-through text-gray-400' : 'text-gray-800'}`} title={d.headsign}>{d.headsign}</td>
+                <td className="py-1 pr-2 text-right whitespace-nowrap">
+                  {d.isCancelled ? (
+                    <span className="line-through text-gray-400">{formatTime(d.scheduled)}</span>
+                  ) : d.predicted !== undefined && formatTime(d.predicted) !== formatTime(d.scheduled) ? (
+                    <>
+                      <span className="line-through text-gray-400 mr-1">{formatTime(d.scheduled)}</span>
+                      <span className="font-bold text-gray-800">{formatTime(d.predicted)}</span>
+                    </>
+                  ) : (
+                    <span className="font-bold text-gray-800">{formatTime(d.scheduled)}</span>
+                  )}
+                </td>
+                <td className={`py-1 text-right whitespace-nowrap font-semibold ${badge ? badge.color : 'text-gray-300'}`}>
+                  {badge ? badge.text : '–'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DepartureBoard;
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { slService } from '../services/slService';
+import { LineStats, PunctualitySummary } from '../types';
+
+interface LineStatsPanelProps {
+  routeId: string;
+  lineName: string;
+  onClose: () => void;
+}
+
+const WINDOW_OPTIONS_H = [1, 2, 6, 24];
+// Längre perioder delas in i grövre intervall så att diagrammet går att läsa
+const getBucketMinutes = (windowH: number) => windowH > 6 ? 60 : 15;
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+const formatDelay = (seconds: number | null) => {
+  if (seconds === null) return '–';
+  const min = seconds / 60;
+  return `${min > 0 ? '+' : ''}${min.toFixed(1)} min`;
+};
+
+const share = (part: number, summary: PunctualitySummary) =>
+  summary.trips > 0 ? Math.round(part / summary.trips * 100) : 0;
+
+const LineStatsPanel: React.FC<LineStatsPanelProps> = ({ routeId, lineName, onClose }) => {
+  const [windowH, setWindowH] = useState(2);
+  const [stats, setStats] = useState<LineStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const to = Date.now();
+    slService.getLineStats(routeId, to - windowH * 60 * 60 * 1000, to, getBucketMinutes(windowH)).then(data => {
+      if (!cancelled) {
+        setStats(data);
+        setLoading(false);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [routeId, windowH]);
+
+  const maxTrips = stats ? Math.max(1, ...stats.buckets.map(b => b.trips)) : 1;
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 p-3 rounded-2xl shadow-2xl w-[min(28rem,calc(100vw-2rem))] flex flex-col gap-3 text-white">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Punktlighet linje {lineName}</div>
+        <div className="flex items-center gap-2">
+          <select
+            value={windowH}
+            onChange={(e) => setWindowH(parseInt(e.target.value))}
+            className="bg-slate-800 text-slate-200 text-xs rounded-lg px-2 py-1 outline-none border border-white/10"
+          >
+            {WINDOW_OPTIONS_H.map(h => (
+              <option key={h} value={h}>Senaste {h} h</option>
+            ))}
+          </select>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Stäng">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Beräknar...
+        </div>
+      ) : !stats || stats.total.trips === 0 ? (
+        <div className="text-xs text-slate-400">Inga förseningsdata för linjen i perioden</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-lg font-bold text-emerald-400">{share(stats.total.onTime, stats.total)}%</div>
+              <div className="text-[10px] text-slate-400 uppercase">I tid</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-red-400">{share(stats.total.late, stats.total)}%</div>
+              <div className="text-[10px] text-slate-400 uppercase">Sena</div>
+            </div>
+            <div>
+              <div className="text-lg font-bold text-blue-400">{share(stats.total.early, stats.total)}%</div>
+              <div className="text-[10px] text-slate-400 uppercase">Tidiga</div>
+            </div>
+          </div>
+          <div className="flex justify-between text-xs text-slate-300">
+            <span>{stats.total.trips} resor</span>
+            <span>Median {formatDelay(stats.total.medianDelay)}</span>
+            <span>P90 {formatDelay(stats.total.p90Delay)}</span>
+          </div>
+
+          {/* Staplar per intervall: höjd = antal resor, färg = andel i tid/sena/tidiga */}
+          <div className="flex items-end gap-0.5 h-24">
+            {stats.buckets.map(b => (
+              <div
+                key={b.start}
+                className="flex-1 flex flex-col-reverse rounded-sm overflow-hidden bg-white/5"
+                style={{ height: `${Math.max(4, b.trips / maxTrips * 100)}%` }}
+                title={`${formatTime(b.start)}: ${b.trips} resor, median ${formatDelay(b.medianDelay)}, p90 ${formatDelay(b.p90Delay)}`}
+              >
+                <div className="bg-emerald-500" style={{ height: `${share(b.onTime, b)}%` }} />
+                <div className="bg-red-500" style={{ height: `${share(b.late, b)}%` }} />
+                <div className="bg-blue-500" style={{ height: `${share(b.early, b)}%` }} />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-slate-500">
+            <span>{formatTime(stats.from)}</span>
+            <span>I tid = max 1 min före / 3 min efter</span>
+            <span>{formatTime(stats.to)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LineStatsPanel;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Play, Pause, Loader2, X } from 'lucide-react';
+import { slService } from '../services/slService';
+import { ReplayTrip } from '../types';
+
+interface ReplayPanelProps {
+  routeId: string;
+  lineName: string;
+  trips: ReplayTrip[];
+  time: number | null;
+  onTripsLoaded: (trips: ReplayTrip[], from: number) => void;
+  onTimeChange: (time: number) => void;
+  onClose: () => void;
+}
+
+const WINDOW_OPTIONS_MIN = [15, 30, 60, 120];
+const SPEED_OPTIONS = [1, 10, 30, 60];
+// Hur ofta uppspelningen flyttar fram klockan
+const PLAYBACK_TICK_MS = 250;
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// <input type="datetime-local"> vill ha lokal tid utan tidszon
+const toLocalInputValue = (ts: number) => {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ routeId, lineName, trips, time, onTripsLoaded, onTimeChange, onClose }) => {
+  const [start, setStart] = useState(() => toLocalInputValue(Date.now() - 1000 * 60 * 60));
+  const [windowMin, setWindowMin] = useState(30);
+  const [range, setRange] = useState<{ from: number; to: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(30);
+
+  // Senaste tiden i en ref så att intervallet inte behöver startas om varje tick
+  const timeRef = useRef(time);
+  timeRef.current = time;
+
+  const handleLoad = async () => {
+    const from = new Date(start).getTime();
+    if (isNaN(from)) return;
+    const to = from + windowMin * 60 * 1000;
+
+    setPlaying(false);
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await slService.getLineReplay(routeId, from, to);
+      setRange({ from, to });
+      onTripsLoaded(loaded, from);
+      if (loaded.length === 0) setError('Inga sparade positioner för linjen i det här fönstret');
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!playing || !range) return;
+    const interval = setInterval(() => {
+      const next = (timeRef.current ?? range.from) + PLAYBACK_TICK_MS * speed;
+      if (next >= range.to) {
+        onTimeChange(range.to);
+        setPlaying(false);
+      } else {
+        onTimeChange(next);
+      }
+    }, PLAYBACK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [playing, speed, range, onTimeChange]);
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 p-3 rounded-2xl shadow-2xl w-[min(28rem,calc(100vw-2rem))] flex flex-col gap-3 text-white">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Uppspelning linje {lineName}</div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white" title="Avsluta uppspelning">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="datetime-local"
+          value={start}
+          onChange={(e) => setStart(e.target.value)}
+          className="flex-1 min-w-0 bg-slate-800 text-slate-200 text-xs rounded-lg px-2 py-1.5 outline-none border border-white/10"
+        />
+        <select
+          value={windowMin}
+          onChange={(e) => setWindowMin(parseInt(e.target.value))}
+          className="bg-slate-800 text-slate-200 text-xs rounded-lg px-2 py-1.5 outline-none border border-white/10"
+        >
+          {WINDOW_OPTIONS_MIN.map(min => (
+            <option key={min} value={min}>{min} min</option>
+          ))}
+        </select>
+        <button
+          onClick={handleLoad}
+          disabled={loading}
+          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-xs font-bold rounded-lg px-3 py-1.5 flex items-center gap-1.5"
+        >
+          {loading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          Hämta
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-amber-400">{error}</div>}
+
+      {range && trips.length > 0 && (
+        <>
+          <input
+            type="range"
+            min={range.from}
+            max={range.to}
+            step={1000}
+            value={time ?? range.from}
+            onChange={(e) => onTimeChange(parseInt(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => {
+                // Starta om från början om uppspelningen redan nått slutet
+                if (!playing && (time ?? range.from) >= range.to) onTimeChange(range.from);
+                setPlaying(!playing);
+              }}
+              className="bg-white/10 hover:bg-white/20 rounded-lg p-1.5"
+              title={playing ? 'Pausa' : 'Spela upp'}
+            >
+              {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <span className="text-sm font-bold tabular-nums">{formatTime(time ?? range.from)}</span>
+            <div className="flex gap-1">
+              {SPEED_OPTIONS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSpeed(s)}
+                  className={`text-[10px] font-bold rounded-md px-1.5 py-1 ${speed === s ? 'bg-blue-600 text-white' : 'bg-white/10 text-slate-300 hover:bg-white/20'}`}
+                >
+                  {s}x
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="text-[10px] text-slate-500">{trips.length} resor i fönstret</div>
+        </>
+      )}
+
+      {!range && (
+        <div className="text-[10px] text-slate-500">Positioner sparas normalt ett dygn bakåt.</div>
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -1,8 +1,9 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, Bus, MapPin, X, Train, Ship, TramFront, TrainFront } from 'lucide-react';
-import { slService } from '../services/slService';
-import { SearchResult, SLLineRoute, HistoryPoint } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Search, MapPin, X, AlertTriangle, ChevronDown } from 'lucide-react';
+import { slService, getStopActivityText } from '../services/slService';
+import TransportIcon from './TransportIcon';
+import { SearchResult, SLLineRoute, StopPassage, ServiceAlert, StopTimePrediction } from '../types';
 
 interface SearchBarProps {
   onSelect: (result: SearchResult) => void;
@@ -11,50 +12,11 @@ interface SearchBarProps {
   searchQuery: string;
   onSearchChange: (query: string) => void;
   placeholder?: string;
-  historyPath?: HistoryPoint[];
+  passages?: StopPassage[];
+  serviceAlerts?: ServiceAlert[];
+  predictions?: StopTimePrediction[];
 }
 
-const getTransportIcon = (lineString: string) => {
-  // Extrahera linjenummer från titeln "Linje X"
-  const lineName = lineString.replace('Linje ', '').trim();
-
-  // Om linjen innehåller bokstäver (t.ex. 25M), visa alltid buss
-  if (/[a-zA-Z]/.test(lineName)) {
-    return <Bus className="w-5 h-5 text-blue-400" />;
-  }
-
-  const num = parseInt(lineName);
-  if (isNaN(num)) return <Bus className="w-5 h-5 text-blue-400" />;
-
-  // Tunnelbana (10, 11, 13, 14, 17, 18, 19)
-  if ([10, 11, 13, 14, 17, 18, 19].includes(num)) {
-    return <TrainFront className="w-5 h-5 text-blue-400" />;
-  }
-
-  // Spårvagn (7, 30, 31) + Nockebybanan (12)
-  if ([7, 12, 30, 31].includes(num)) {
-    return <TramFront className="w-5 h-5 text-blue-400" />;
-  }
-
-  // Lokalbana (21, 25, 26, 27, 28, 29)
-  if ([21, 25, 26, 27, 28, 29].includes(num)) {
-    return <TramFront className="w-5 h-5 text-blue-400" />;
-  }
-
-  // Pendeltåg (40, 41, 42, 43, 44, 48)
-  if ([40, 41, 42, 43, 44, 48].includes(num)) {
-    return <Train className="w-5 h-5 text-blue-400" />;
-  }
-
-  // Pendelbåt (80, 82, 83, 84, 89)
-  if ([80, 82, 83, 84, 89].includes(num)) {
-    return <Ship className="w-5 h-5 text-blue-400" />;
-  }
-
-  // Standard: Buss
-  return <Bus className="w-5 h-5 text-blue-400" />;
-};
-
 const SearchBar: React.FC<SearchBarProps> = ({ 
   onSelect, 
   onClear, 
@@ -62,22 +24,35 @@ const SearchBar: React.FC<SearchBarProps> = ({
   searchQuery, 
   onSearchChange,
   placeholder = "Sök linje eller hållplats...",
-  historyPath
+  passages,
+  serviceAlerts = [],
+  predictions
 }) => {
   const [results, setResults] = useState<SearchResult[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
+  // Station vars lägen visas i listan
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   // Ref för att spåra om vi precis har gjort ett val.
   // Detta förhindrar att dropdown-menyn öppnas igen när input-värdet uppdateras efter ett klick.
   const isSelectingRef = useRef(false);
 
+  // Antal aktiva störningar per route_id, för varningsmärket på linjeträffar
+  const alertCountByRoute = useMemo(() => {
+    const counts = new Map<string, number>();
+    serviceAlerts.forEach(alert => {
+      alert.routeIds.forEach(routeId => counts.set(routeId, (counts.get(routeId) || 0) + 1));
+    });
+    return counts;
+  }, [serviceAlerts]);
+
   useEffect(() => {
     const fetchResults = async () => {
       if (searchQuery.trim().length > 0) {
-        // Skicka med historyPath för att kunna visa passerade tider
-        const res = await slService.search(searchQuery, activeRoute, historyPath);
+        const res = await slService.search(searchQuery, activeRoute);
         setResults(res);
+        setExpandedId(null);
         
         // Öppna bara dropdown om vi inte precis har valt något
         if (!isSelectingRef.current) {
@@ -92,7 +67,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
       }
     };
     fetchResults();
-  }, [searchQuery, activeRoute, historyPath]);
+  }, [searchQuery, activeRoute]);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -136,29 +111,76 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
         {showDropdown && results.length > 0 && (
           <div className="border-t border-white/5 max-h-80 overflow-y-auto">
-            {results.map((result) => (
+            {results.map((result) => {
+              const alertCount = result.type === 'line' ? (alertCountByRoute.get(result.id) || 0) : 0;
+              const isExpanded = expandedId === result.id && !!result.platforms;
+              // Passerade och kommande tider för den valda resan räknas fram vid varje rendering,
+              // så att listan följer med prognoserna utan att sökningen görs om
+              const subtitle = activeRoute && result.type === 'stop'
+                ? `${result.subtitle || ''}${getStopActivityText(result.id, passages, predictions)}`
+                : result.subtitle;
+              return (
+              <React.Fragment key={`${result.type}-${result.id}`}>
+              <div className="flex items-center hover:bg-white/5 transition-colors">
               <button
-                key={`${result.type}-${result.id}`}
                 onClick={() => {
                   isSelectingRef.current = true; // Flagga att vi gör ett val
                   onSelect(result);
                   setShowDropdown(false);
                 }}
-                className="w-full flex items-center gap-4 px-4 py-3 hover:bg-white/5 transition-colors text-left"
+                className="flex-1 min-w-0 flex items-center gap-4 px-4 py-3 text-left"
               >
                 <div className={`p-2 rounded-lg ${result.type === 'line' ? 'bg-blue-500/20' : 'bg-emerald-500/20'}`}>
                   {result.type === 'line' ? (
-                    getTransportIcon(result.title)
+                    <TransportIcon mode={result.mode} />
                   ) : (
                     <MapPin className="w-5 h-5 text-emerald-400" />
                   )}
                 </div>
-                <div>
+                <div className="flex-1 min-w-0">
                   <div className="text-sm font-medium text-white">{result.title}</div>
-                  {result.subtitle && <div className="text-xs text-zinc-400">{result.subtitle}</div>}
+                  {subtitle && <div className="text-xs text-zinc-400 truncate">{subtitle}</div>}
                 </div>
+                {alertCount > 0 && (
+                  <div
+                    className="flex items-center gap-1 px-2 py-1 rounded-lg bg-amber-500/20 text-amber-400 text-[10px] font-bold flex-shrink-0"
+                    title={`${alertCount} aktiva störningar`}
+                  >
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    {alertCount}
+                  </div>
+                )}
               </button>
-            ))}
+              {result.platforms && (
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : result.id)}
+                  className="p-2 mr-2 hover:bg-zinc-800 rounded-full transition-colors flex-shrink-0"
+                  title={isExpanded ? 'Dölj lägen' : 'Visa lägen'}
+                >
+                  <ChevronDown className={`w-4 h-4 text-zinc-400 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                </button>
+              )}
+              </div>
+              {isExpanded && result.platforms!.map(platform => (
+                <button
+                  key={`platform-${platform.id}`}
+                  onClick={() => {
+                    isSelectingRef.current = true;
+                    onSelect(platform);
+                    setShowDropdown(false);
+                  }}
+                  className="w-full flex items-center gap-3 pl-14 pr-4 py-2 hover:bg-white/5 transition-colors text-left"
+                >
+                  <MapPin className="w-3.5 h-3.5 text-emerald-400/70 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium text-zinc-200">{platform.title}</div>
+                    {platform.subtitle && <div className="text-[11px] text-zinc-500 truncate">{platform.subtitle}</div>}
+                  </div>
+                </button>
+              ))}
+              </React.Fragment>
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { ServiceAlert } from '../types';
+
+interface ServiceAlertListProps {
+  alerts: ServiceAlert[];
+  variant?: 'light' | 'dark';
+}
+
+const EFFECT_LABELS: Record<string, string> = {
+  NO_SERVICE: 'Inställd trafik',
+  REDUCED_SERVICE: 'Minskad trafik',
+  SIGNIFICANT_DELAYS: 'Stora förseningar',
+  DETOUR: 'Omledning',
+  ADDITIONAL_SERVICE: 'Extra trafik',
+  MODIFIED_SERVICE: 'Ändrad trafik',
+  STOP_MOVED: 'Flyttad hållplats',
+  ACCESSIBILITY_ISSUE: 'Tillgänglighet',
+};
+
+const CAUSE_LABELS: Record<string, string> = {
+  TECHNICAL_PROBLEM: 'Tekniskt fel',
+  STRIKE: 'Strejk',
+  DEMONSTRATION: 'Demonstration',
+  ACCIDENT: 'Olycka',
+  HOLIDAY: 'Helgdag',
+  WEATHER: 'Väder',
+  MAINTENANCE: 'Underhåll',
+  CONSTRUCTION: 'Byggarbete',
+  POLICE_ACTIVITY: 'Polisinsats',
+  MEDICAL_EMERGENCY: 'Sjukdomsfall',
+};
+
+const formatPeriodEnd = (alert: ServiceAlert) => {
+  const ends = alert.activePeriods.map(p => p.end).filter((end): end is number => end !== undefined);
+  if (ends.length === 0) return null;
+  return new Date(Math.max(...ends)).toLocaleString('sv-SE', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const ServiceAlertList: React.FC<ServiceAlertListProps> = ({ alerts, variant = 'light' }) => {
+  if (alerts.length === 0) return null;
+
+  const isDark = variant === 'dark';
+
+  return (
+    <div className="flex flex-col gap-2">
+      {alerts.map(alert => {
+        const tags = [EFFECT_LABELS[alert.effect], CAUSE_LABELS[alert.cause]].filter(Boolean);
+        const until = formatPeriodEnd(alert);
+        return (
+          <div
+            key={alert.id}
+            className={`flex gap-2 p-2 rounded-lg text-xs ${isDark ? 'bg-amber-500/10 text-amber-100' : 'bg-amber-50 text-amber-900'}`}
+          >
+            <AlertTriangle className={`w-4 h-4 flex-shrink-0 mt-0.5 ${isDark ? 'text-amber-400' : 'text-amber-500'}`} />
+            <div className="min-w-0">
+              <div className="font-bold">{alert.header || 'Störning'}</div>
+              {alert.description && alert.description !== alert.header && (
+                <div className={`mt-0.5 whitespace-pre-line ${isDark ? 'text-amber-200/80' : 'text-amber-800'}`}>{alert.description}</div>
+              )}
+              {(tags.length > 0 || until) && (
+                <div className={`mt-1 text-[10px] font-semibold uppercase tracking-wide ${isDark ? 'text-amber-300/70' : 'text-amber-600'}`}>
+                  {tags.join(' • ')}{tags.length > 0 && until ? ' • ' : ''}{until ? `Till ${until}` : ''}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ServiceAlertList;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Bus, Train, Ship, TramFront, TrainFront } from 'lucide-react';
+import { TransportMode } from '../types';
+
+interface TransportIconProps {
+  mode?: TransportMode;
+  className?: string;
+}
+
+const TransportIcon: React.FC<TransportIconProps> = ({ mode, className = "w-5 h-5 text-blue-400" }) => {
+  switch (mode) {
+    case 'Tunnelbana': return <TrainFront className={className} />;
+    case 'Spårvagn': return <TramFront className={className} />;
+    case 'Pendeltåg':
+    case 'Tåg': return <Train className={className} />;
+    case 'Båt': return <Ship className={className} />;
+    default: return <Bus className={className} />;
+  }
+};
+
+export default TransportIcon;
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { slService } from '../services/slService';
+import { VehicleDayTrip } from '../types';
+
+interface VehicleDayPanelProps {
+  vehicleId: string;
+  trips: VehicleDayTrip[];
+  selectedTripId: string | null;
+  onTripsLoaded: (trips: VehicleDayTrip[]) => void;
+  onSelectTrip: (tripId: string | null) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const VehicleDayPanel: React.FC<VehicleDayPanelProps> = ({ vehicleId, trips, selectedTripId, onTripsLoaded, onSelectTrip, onClose }) => {
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    slService.getVehicleDay(vehicleId, startOfToday()).then(loaded => {
+      if (!cancelled) {
+        onTripsLoaded(loaded);
+        setLoading(false);
+      }
+    });
+    return () => { cancelled = true; };
+  }, [vehicleId, onTripsLoaded]);
+
+  // Unika linjer i körordning, för sammanfattningen överst
+  const lines = Array.from(new Set(trips.map(t => t.line).filter((l): l is string => !!l)));
+
+  return (
+    <div className="bg-slate-900/90 backdrop-blur-xl border border-white/10 p-3 rounded-2xl shadow-2xl w-full md:w-80 flex flex-col gap-2 text-white">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Vagn {vehicleId.slice(-4)} idag</div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white" title="Stäng">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" /> Hämtar resor...
+        </div>
+      ) : trips.length === 0 ? (
+        <div className="text-xs text-slate-400">Inga sparade resor för fordonet idag</div>
+      ) : (
+        <>
+          {lines.length > 0 && (
+            <div className="text-xs text-slate-300">
+              {trips.length} resor på {lines.length === 1 ? 'linje' : 'linjerna'} {lines.join(', ')}
+            </div>
+          )}
+          <ul className="flex flex-col gap-1 max-h-60 overflow-y-auto">
+            {trips.map(trip => {
+              const isSelected = trip.tripId === selectedTripId;
+              return (
+                <li key={trip.tripId}>
+                  <button
+                    onClick={() => onSelectTrip(isSelected ? null : trip.tripId)}
+                    className={`w-full flex items-center gap-2 text-left text-sm rounded-lg px-2 py-1 ${isSelected ? 'bg-violet-600/40' : 'hover:bg-white/10'}`}
+                  >
+                    <span className="text-slate-400 text-xs tabular-nums whitespace-nowrap">{formatTime(trip.start)}–{formatTime(trip.end)}</span>
+                    <span className="bg-blue-600 text-white text-[10px] font-bold rounded px-1.5 py-0.5">{trip.line || '?'}</span>
+                    <span className="truncate" title={trip.headsign}>Mot {trip.headsign}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VehicleDayPanel;
@@ -1,13 +1,37 @@
 
 import React from 'react';
-import { SLVehicle } from '../types';
+import { SLVehicle, HeadwayGap, HeadwayStatus, VehicleHeadway } from '../types';
+import { slService } from '../services/slService';
+import { TrailExportFormat } from '../services/exportFormats';
+
+const EXPORT_FORMATS: { format: TrailExportFormat; label: string }[] = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'gpx', label: 'GPX' },
+  { format: 'csv', label: 'CSV' }
+];
 
 interface VehiclePopupProps {
   vehicle: SLVehicle;
   lineShortName: string;
+  isStale?: boolean;
+  onShowDay?: () => void;
+  headway?: VehicleHeadway;
 }
 
-const VehiclePopup: React.FC<VehiclePopupProps> = ({ vehicle, lineShortName }) => {
+const HEADWAY_STYLES: Record<HeadwayStatus, string> = {
+  bunched: 'text-red-600',
+  normal: 'text-emerald-600',
+  gap: 'text-amber-600'
+};
+
+const formatGap = (gap: HeadwayGap) => {
+  const distance = gap.distance >= 1000 ? `${(gap.distance / 1000).toFixed(1).replace('.', ',')} km` : `${gap.distance} m`;
+  const minutes = Math.round(gap.time / 60);
+  const label = gap.status === 'bunched' ? ' • klump' : gap.status === 'gap' ? ' • lucka' : '';
+  return `${distance} • ${minutes < 1 ? '<1' : minutes} min${label}`;
+};
+
+const VehiclePopup: React.FC<VehiclePopupProps> = ({ vehicle, lineShortName, isStale = false, onShowDay, headway }) => {
   // Extraherar operatörskod (de 3 siffrorna före de sista 4 i id:t)
   const match = /([0-9]{3})([0-9]{4})$/.exec(vehicle.id);
   const companyCode = match ? match[1] : null;
@@ -30,6 +54,7 @@ const VehiclePopup: React.FC<VehiclePopupProps> = ({ vehicle, lineShortName }) =
   const vehicleNumber = vehicle.id.slice(-4);
   const roundedSpeed = Math.round(vehicle.speed);
   const hasDestination = vehicle.destination && vehicle.destination !== "Okänd";
+  const isExtra = vehicle.scheduleRelationship === 'ADDED' || vehicle.scheduleRelationship === 'UNSCHEDULED';
 
   // Formatera försening
   const getDelayInfo = () => {
@@ -50,11 +75,22 @@ const VehiclePopup: React.FC<VehiclePopupProps> = ({ vehicle, lineShortName }) =
 
   const delayStatus = getDelayInfo();
 
+  const lastReportText = vehicle.lastReport
+    ? new Date(vehicle.lastReport).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+    : null;
+
   return (
     <div className="p-3 bg-white min-w-[240px] text-gray-800 font-sans shadow-sm">
       <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs">
         <div className="font-semibold text-gray-400 uppercase tracking-tighter">Linje</div>
-        <div className="text-right font-bold text-blue-600 pr-5">{lineShortName}</div>
+        <div className="text-right font-bold text-blue-600 pr-5">
+          {isExtra && (
+            <span className="mr-1.5 px-1.5 py-0.5 rounded bg-violet-100 text-violet-700 text-[10px] font-bold uppercase align-middle" title="Extratur utanför tidtabellen">
+              Extra
+            </span>
+          )}
+          {lineShortName}
+        </div>
 
         {hasDestination && (
           <>
@@ -80,13 +116,57 @@ const VehiclePopup: React.FC<VehiclePopupProps> = ({ vehicle, lineShortName }) =
             <div className="text-right font-medium">{roundedSpeed} km/h</div>
           </>
         )}
+
+        {headway?.ahead && (
+          <>
+            <div className="font-semibold text-gray-400 uppercase tracking-tighter">Före</div>
+            <div className={`text-right font-medium ${HEADWAY_STYLES[headway.ahead.status]}`}>{formatGap(headway.ahead)}</div>
+          </>
+        )}
+
+        {headway?.behind && (
+          <>
+            <div className="font-semibold text-gray-400 uppercase tracking-tighter">Bakom</div>
+            <div className={`text-right font-medium ${HEADWAY_STYLES[headway.behind.status]}`}>{formatGap(headway.behind)}</div>
+          </>
+        )}
+
+        {lastReportText && (
+          <>
+            <div className="font-semibold text-gray-400 uppercase tracking-tighter">Senaste rapport</div>
+            <div className={`text-right font-medium ${isStale ? 'text-amber-600' : ''}`}>{lastReportText}</div>
+          </>
+        )}
+      </div>
+
+      <div className="mt-3 flex items-center justify-between text-[10px]">
+        <span className="font-semibold text-gray-400 uppercase tracking-tighter">Exportera spår</span>
+        <span className="flex gap-2">
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <a key={format} href={slService.getTrailExportUrl(vehicle.tripId, format)} download className="font-bold text-blue-600 hover:underline">
+              {label}
+            </a>
+          ))}
+        </span>
       </div>
       
-      <div className="mt-3 pt-2 border-t border-gray-100 flex justify-end items-center">
-         <span className="inline-flex items-center gap-1.5 text-[10px] text-emerald-700 font-bold">
-            <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-pulse"></span>
-            Realtid
-         </span>
+      <div className={`mt-3 pt-2 border-t border-gray-100 flex items-center ${onShowDay ? 'justify-between' : 'justify-end'}`}>
+         {onShowDay && (
+           <button onClick={onShowDay} className="text-[10px] font-bold text-blue-600 hover:underline" title="Visa vilka linjer fordonet kört idag">
+              Dagens resor
+           </button>
+         )}
+         {isStale ? (
+           <span className="inline-flex items-center gap-1.5 text-[10px] text-gray-500 font-bold">
+              <span className="w-1.5 h-1.5 bg-gray-400 rounded-full"></span>
+              Inaktuell position
+           </span>
+         ) : (
+           <span className="inline-flex items-center gap-1.5 text-[10px] text-emerald-700 font-bold">
+              <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-pulse"></span>
+              Realtid
+           </span>
+         )}
       </div>
     </div>
   );
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import { encodeFeed, FeedMessage } from '../services/gtfsRealtime';
+
+// Bygger GTFS-RT-fixturerna som testerna i services/ avkodar.
+// Innehållet är nedbantade utdrag i samma form som SL:s flöden från Samtrafiken,
+// med de fall testerna behöver (överhoppade hållplatser, inställda resor, saknade fält).
+// Kör med: npm run fixtures
+
+const OUT_DIR = path.resolve(process.cwd(), 'services/__fixtures__');
+
+// 2025-10-14 12:40 svensk tid
+const FEED_TIME = 1760438400;
+
+const vehiclePositions: FeedMessage = {
+    header: { gtfsRealtimeVersion: '2.0', incrementality: 'FULL_DATASET', timestamp: FEED_TIME },
+    entity: [
+        {
+            // Resan finns i trip-indexet med destination
+            id: '9031001004500001',
+            vehicle: {
+                trip: { tripId: '14010000668563458', routeId: '9011001000400000', directionId: 0, startTime: '12:15:00', startDate: '20251014', scheduleRelationship: 'SCHEDULED' },
+                vehicle: { id: '9031001004500001', label: '4501' },
+                position: { latitude: 59.3426, longitude: 18.0491, bearing: 92, speed: 8.5 },
+                currentStopSequence: 7,
+                stopId: '9022001010098002',
+                currentStatus: 'STOPPED_AT',
+                timestamp: FEED_TIME - 4
+            }
+        },
+        {
+            // Resan finns i indexet utan destination, riktningen anges i VehiclePosition
+            id: '9031001004500002',
+            vehicle: {
+                trip: { tripId: '14010000668563459', directionId: 1 },
+                vehicle: { id: '9031001004500002', label: '4502' },
+                position: { latitude: 59.3311, longitude: 18.0602, bearing: 270, speed: 0 },
+                currentStatus: 'IN_TRANSIT_TO',
+                timestamp: FEED_TIME - 12
+            }
+        },
+        {
+            // Saknas i indexet, linje och riktning kommer från TripUpdate
+            id: '9031001004500003',
+            vehicle: {
+                trip: { tripId: '14010000668563460' },
+                vehicle: { id: '9031001004500003', label: '4503' },
+                position: { latitude: 59.3501, longitude: 18.0213, bearing: 180, speed: 11.1 },
+                timestamp: FEED_TIME - 8
+            }
+        },
+        {
+            // Ingen riktning någonstans, destinationen blir sista hållplatsen i TripUpdate
+            id: '9031001004500004',
+            vehicle: {
+                trip: { tripId: '14010000668563461', routeId: '9011001000400000' },
+                vehicle: { id: '9031001004500004', label: '4504' },
+                position: { latitude: 59.3189, longitude: 18.0712, bearing: 15, speed: 6.2 },
+                timestamp: FEED_TIME - 20
+            }
+        },
+        {
+            // Ingen uppgift om destination alls
+            id: '9031001004500005',
+            vehicle: {
+                trip: { tripId: '14010000668563462', routeId: '9011001005000000' },
+                vehicle: { id: '9031001004500005' },
+                position: { latitude: 59.3088, longitude: 18.0931 },
+                timestamp: FEED_TIME - 30
+            }
+        },
+        {
+            // Okänd linje, ska inte bli något fordon
+            id: '9031001004500006',
+            vehicle: {
+                trip: { tripId: '14010000668563463' },
+                vehicle: { id: '9031001004500006', label: '4506' },
+                position: { latitude: 59.2999, longitude: 18.1001 },
+                timestamp: FEED_TIME - 5
+            }
+        }
+    ]
+};
+
+const tripUpdates: FeedMessage = {
+    header: { gtfsRealtimeVersion: '2.0', incrementality: 'FULL_DATASET', timestamp: FEED_TIME },
+    entity: [
+        {
+            // Första hållplatsen hoppas över, förseningen ska tas från den första som trafikeras
+            id: 'tu-14010000668563458',
+            tripUpdate: {
+                trip: { tripId: '14010000668563458', routeId: '9011001000400000', directionId: 0, startTime: '12:15:00', startDate: '20251014', scheduleRelationship: 'SCHEDULED' },
+                stopTimeUpdate: [
+                    { stopSequence: 6, stopId: '9022001010097001', scheduleRelationship: 'SKIPPED' },
+                    { stopSequence: 7, stopId: '9022001010098002', arrival: { delay: 120, time: FEED_TIME + 60, uncertainty: 30 }, departure: { delay: 150, time: FEED_TIME + 90 } },
+                    { stopSequence: 8, stopId: '9022001010099001', arrival: { delay: 180, time: FEED_TIME + 300 } }
+                ]
+            }
+        },
+        {
+            id: 'tu-14010000668563460',
+            tripUpdate: {
+                trip: { tripId: '14010000668563460', routeId: '9011001000400000', directionId: 1, startDate: '20251014' },
+                stopTimeUpdate: [
+                    { stopSequence: 3, stopId: '9022001010012001', departure: { delay: -45, time: FEED_TIME + 120 } }
+                ]
+            }
+        },
+        {
+            // Saknar riktning, sista hållplatsen används som destination
+            id: 'tu-14010000668563461',
+            tripUpdate: {
+                trip: { tripId: '14010000668563461', routeId: '9011001000400000' },
+                stopTimeUpdate: [
+                    { stopSequence: 11, stopId: '9022001010050001', arrival: { delay: 60, time: FEED_TIME + 240 } },
+                    { stopSequence: 12, stopId: '9022001010051001', arrival: { delay: 60, time: FEED_TIME + 400 } },
+                    { stopSequence: 13, stopId: '9022001010052001', scheduleRelationship: 'SKIPPED' }
+                ]
+            }
+        },
+        {
+            id: 'tu-14010000668563999',
+            tripUpdate: {
+                trip: { tripId: '14010000668563999', routeId: '9011001005000000', directionId: 0, startTime: '25:10:00', startDate: '20251013', scheduleRelationship: 'CANCELED' }
+            }
+        }
+    ]
+};
+
+fs.mkdirSync(OUT_DIR, { recursive: true });
+fs.writeFileSync(path.join(OUT_DIR, 'vehicle-positions.pb'), encodeFeed(vehiclePositions));
+fs.writeFileSync(path.join(OUT_DIR, 'trip-updates.pb'), encodeFeed(tripUpdates));
+console.log(`Skrev fixturer till ${OUT_DIR}`);
@@ -0,0 +1,60 @@
+import path from 'path';
+import fs from 'fs';
+import process from 'process';
+
+// Kontrollerar att public/data är genererad av den nuvarande versionen av process-gtfs.mjs.
+// Avgångstavlan, trafikkalendern och stationsgrupperingen behöver filer som äldre körningar
+// inte skrev, och utan dem fungerar appen men visar tomma listor. Körs före varje build.
+// Datan byggs om med: npm run download && npm run update
+
+const OUT_DIR = path.resolve(process.cwd(), 'public/data');
+// Filer som manifestet måste ange och som måste finnas på disk
+const REQUIRED_FILES = ['trips/index.json', 'route-directions.json', 'services.json', 'stops.json'];
+
+function readJson(file) {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(OUT_DIR, file), 'utf8'));
+    } catch (e) {
+        return null;
+    }
+}
+
+function checkStaticData() {
+    const problems = [];
+    const manifest = readJson('manifest.json');
+
+    if (!manifest || Array.isArray(manifest) || !manifest.version) {
+        problems.push('manifest.json saknar dataversion (genererad av en äldre process-gtfs.mjs)');
+    } else {
+        const files = manifest.files || {};
+        for (const file of REQUIRED_FILES) {
+            if (!files[file] || !fs.existsSync(path.join(OUT_DIR, file))) problems.push(`${file} saknas`);
+        }
+        if (!files.departures || !fs.existsSync(path.join(OUT_DIR, 'departures'))) problems.push('departures/ saknas');
+
+        const index = readJson('trips/index.json');
+        (index?.shards || []).forEach(key => {
+            if (!fs.existsSync(path.join(OUT_DIR, 'trips', `${key}.json`))) problems.push(`trips/${key}.json saknas`);
+        });
+
+        // Linjefilerna ska ha varianter med resornas trafikdygn
+        const route = (manifest.routes || [])[0];
+        const line = route ? readJson(`lines/${route.id}.json`) : null;
+        if (!line || !Array.isArray(line.variants) || !line.variants.every(v => Array.isArray(v.trip_schedule))) {
+            problems.push('linjefilerna saknar varianter med trip_schedule');
+        }
+
+        const stops = readJson('stops.json') || [];
+        if (!stops.some(s => s.location_type === 1)) problems.push('stops.json saknar stationer');
+    }
+
+    if (problems.length > 0) {
+        console.error('FEL: public/data är inte genererad med den nuvarande GTFS-bearbetningen:');
+        problems.forEach(p => console.error(` - ${p}`));
+        console.error('Bygg om datan med: npm run download && npm run update');
+        process.exit(1);
+    }
+    console.log(`public/data är aktuell (dataversion ${manifest.version}).`);
+}
+
+checkStaticData();
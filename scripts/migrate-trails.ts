@@ -0,0 +1,65 @@
+import { getMongoClient } from '../api/_lib/mongodb';
+import { MongoStore } from '../api/_lib/mongoStore';
+import { TrailSample, TRAIL_RETENTION_MS } from '../api/_lib/storage';
+
+// Engångsmigrering från den gamla samlingen vehicle_trails (ett dokument per resa med
+// hela spåret i `trail`) till tidsdokumenten i trail_buckets.
+// Kör en gång efter deployen som bytte samling, med samma MONGODB_URI som produktionen:
+//   MONGODB_URI=... npm run migrate:trails
+// Varje resa tas bort ur vehicle_trails när den flyttats, så en avbruten körning kan
+// startas om utan dubbletter. Till sist tas den tomma samlingen bort.
+// Den gamla samlingen hade en TTL på två timmar, så utan migrering töms den ändå av sig
+// själv, men historik och uppspelning saknar då spåren från tiden före deployen.
+
+const OLD_COLLECTION = 'vehicle_trails';
+
+async function migrateTrails() {
+    console.log('--- Flyttar spår från vehicle_trails till trail_buckets ---');
+
+    const client = await getMongoClient();
+    try {
+        const db = client.db('sl_tracker');
+        const exists = await db.listCollections({ name: OLD_COLLECTION }, { nameOnly: true }).hasNext();
+        if (!exists) {
+            console.log('Samlingen vehicle_trails finns inte, inget att göra.');
+            return;
+        }
+
+        const store = new MongoStore(db);
+        await store.ensureIndexes();
+
+        const old = db.collection(OLD_COLLECTION);
+        const cutoff = Date.now() - TRAIL_RETENTION_MS;
+        let trips = 0;
+        let points = 0;
+
+        for await (const doc of old.find({})) {
+            const samples: TrailSample[] = (doc.trail || [])
+                .filter((p: any) => typeof p.ts === 'number' && p.ts >= cutoff)
+                .map((p: any) => ({
+                    tripId: doc.tripId,
+                    line: doc.line,
+                    vehicleId: doc.vehicleId,
+                    lat: p.lat,
+                    lng: p.lng,
+                    ts: p.ts,
+                    delay: p.delay ?? undefined
+                }));
+
+            await store.insertTrailPoints(samples);
+            await old.deleteOne({ _id: doc._id });
+            trips++;
+            points += samples.length;
+        }
+
+        await old.drop();
+        console.log(`Klart: ${points} punkter från ${trips} resor flyttade, vehicle_trails borttagen.`);
+    } finally {
+        await client.close();
+    }
+}
+
+migrateTrails().catch(err => {
+    console.error('Migreringen misslyckades:', err);
+    process.exit(1);
+});
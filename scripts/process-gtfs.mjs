@@ -1,5 +1,6 @@
 import path from 'path';
 import fs from 'fs';
+import { createHash } from 'crypto';
 import yauzl from 'yauzl-promise';
 import { parse } from 'csv-parse';
 import process from 'process';
@@ -10,6 +11,10 @@ const ZIP_FILE = path.join(DATA_DIR, 'sweden.zip');
 const PUBLIC_DIR = path.resolve(process.cwd(), 'public');
 const OUT_DIR = path.join(PUBLIC_DIR, 'data');
 const LINES_OUT_DIR = path.join(OUT_DIR, 'lines');
+const DEPARTURES_OUT_DIR = path.join(OUT_DIR, 'departures');
+const TRIPS_OUT_DIR = path.join(OUT_DIR, 'trips');
+// Antal tecken från slutet av trip_id som bildar delfilens nyckel, se services/tripIndex.ts
+const TRIP_SHARD_KEY_LENGTH = 2;
 const SL_AGENCY_ID = '505000000000000001'; // SL:s unika identifierare
 
 // --- Hjälpfunktion för att strömma CSV från en zip-post ---
@@ -28,6 +33,32 @@ async function streamCsvFromEntry(entry, processRow, fileNameForError) {
     }
 }
 
+// --- Innehållshash för en fil, används i manifestets dataversion och i klientens URL:er ---
+function hashContent(content) {
+    return createHash('sha256').update(content).digest('hex').slice(0, 12);
+}
+
+// --- Skriv en fil och returnera dess innehållshash ---
+function writeHashed(filePath, content) {
+    fs.writeFileSync(filePath, content);
+    return hashContent(content);
+}
+
+// --- Töm en utdatamapp, så att filer från tidigare körningar inte ligger kvar och serveras ---
+// Versionshashen i manifestet förutsätter att mappen bara innehåller den aktuella körningens filer.
+function resetDir(dir) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.mkdirSync(dir, { recursive: true });
+}
+
+// --- Hjälpfunktion för att tolka GTFS-tider (HH:MM:SS, kan överstiga 24:00:00) till sekunder ---
+function parseGtfsTime(time) {
+    if (!time) return null;
+    const [h, m, s] = time.split(':').map(Number);
+    if ([h, m, s].some(isNaN)) return null;
+    return h * 3600 + m * 60 + s;
+}
+
 // --- Huvudfunktion ---
 async function processGTFS() {
     console.log('--- Startar GTFS-bearbetning för SL ---');
@@ -39,7 +70,7 @@ async function processGTFS() {
     }
     
     // Skapa utdatamappar
-    [PUBLIC_DIR, OUT_DIR, LINES_OUT_DIR].forEach(dir => {
+    [PUBLIC_DIR, OUT_DIR, LINES_OUT_DIR, DEPARTURES_OUT_DIR, TRIPS_OUT_DIR].forEach(dir => {
         if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
     });
 
@@ -54,8 +85,25 @@ async function processGTFS() {
     console.log(` -> Hittade ${entries.size} filer.`);
 
     try {
+        // Innehållshashar för de filer klienten cachar, nyckel = filnamn i public/data
+        const fileHashes = {};
+
+        // Flödets version och giltighetstid (feed_info.txt är valfri i GTFS)
+        let feedInfo = null;
+        if (entries.has('feed_info.txt')) {
+            await streamCsvFromEntry(entries.get('feed_info.txt'), (row) => {
+                if (!feedInfo) feedInfo = {
+                    publisher: row.feed_publisher_name || undefined,
+                    version: row.feed_version || undefined,
+                    startDate: row.feed_start_date || undefined,
+                    endDate: row.feed_end_date || undefined
+                };
+            }, 'feed_info.txt');
+            console.log(` -> Flödesversion: ${feedInfo?.version || feedInfo?.startDate || 'okänd'}`);
+        }
+
         // Steg 1: Hitta alla SL-rutter
-        console.log('\n[1/7] Filtrerar SL-rutter...');
+        console.log('\n[1/9] Filtrerar SL-rutter...');
         const slRouteIds = new Set();
         const routesData = new Map();
         await streamCsvFromEntry(entries.get('routes.txt'), (row) => {
@@ -67,9 +115,10 @@ async function processGTFS() {
         console.log(` -> Hittade ${slRouteIds.size} SL-rutter.`);
 
         // Steg 2: Hitta alla resor, former och skapa trip -> route mappning
-        console.log('\n[2/7] Filtrerar resor och skapar mappning...');
+        console.log('\n[2/9] Filtrerar resor och skapar mappning...');
         const slTripIds = new Set();
         const slShapeIds = new Set();
+        const slServiceIds = new Set();
         const tripsByRoute = new Map();
         const tripToRouteMap = {};
         
@@ -81,6 +130,7 @@ async function processGTFS() {
             if (slRouteIds.has(row.route_id)) {
                 slTripIds.add(row.trip_id);
                 if (row.shape_id) slShapeIds.add(row.shape_id);
+                if (row.service_id) slServiceIds.add(row.service_id);
                 
                 if (!tripsByRoute.has(row.route_id)) tripsByRoute.set(row.route_id, []);
                 tripsByRoute.get(row.route_id).push(row);
@@ -106,8 +156,44 @@ async function processGTFS() {
         console.log(` -> Hittade ${slTripIds.size} SL-resor med ${slShapeIds.size} unika former.`);
 
         // Steg 3a: Spara trip -> route mappningen
-        console.log('\n[3/7] Sparar mappningsfiler...');
-        fs.writeFileSync(path.join(OUT_DIR, 'trip-to-route.json'), JSON.stringify(tripToRouteMap));
+        console.log('\n[3/9] Sparar mappningsfiler...');
+        // Uppdelat index i stället för en stor trip-to-route.json. Linjer och destinationer
+        // lagras en gång i index.json och delfilerna innehåller bara index in i de tabellerna.
+        const routeTable = [];
+        const routeIndex = new Map();
+        const headsignTable = [''];
+        const headsignIndex = new Map([['', 0]]);
+        const tableIndex = (table, lookup, value) => {
+            if (!lookup.has(value)) {
+                lookup.set(value, table.length);
+                table.push(value);
+            }
+            return lookup.get(value);
+        };
+
+        const shards = new Map();
+        for (const [tripId, entry] of Object.entries(tripToRouteMap)) {
+            const key = tripId.slice(-TRIP_SHARD_KEY_LENGTH).padStart(TRIP_SHARD_KEY_LENGTH, '_');
+            if (!shards.has(key)) shards.set(key, {});
+            shards.get(key)[tripId] = [
+                tableIndex(routeTable, routeIndex, entry.r),
+                tableIndex(headsignTable, headsignIndex, entry.h)
+            ];
+        }
+
+        const shardKeys = Array.from(shards.keys()).sort();
+        resetDir(TRIPS_OUT_DIR);
+        for (const key of shardKeys) {
+            fileHashes[`trips/${key}.json`] = writeHashed(path.join(TRIPS_OUT_DIR, `${key}.json`), JSON.stringify(shards.get(key)));
+        }
+        fileHashes['trips/index.json'] = writeHashed(path.join(TRIPS_OUT_DIR, 'index.json'), JSON.stringify({
+            keyLength: TRIP_SHARD_KEY_LENGTH,
+            routes: routeTable,
+            headsigns: headsignTable,
+            shards: shardKeys
+        }));
+        // Den gamla hela filen skulle annars ligga kvar och bli inaktuell
+        fs.rmSync(path.join(OUT_DIR, 'trip-to-route.json'), { force: true });
         
         // Steg 3b: Skapa och spara route-directions.json (Fallback-data)
         const routeDirections = {};
@@ -129,12 +215,38 @@ async function processGTFS() {
                 }
             }
         }
-        fs.writeFileSync(path.join(OUT_DIR, 'route-directions.json'), JSON.stringify(routeDirections));
-        console.log(` -> Sparade trip-to-route.json och route-directions.json`);
+        fileHashes['route-directions.json'] = writeHashed(path.join(OUT_DIR, 'route-directions.json'), JSON.stringify(routeDirections));
+        console.log(` -> Sparade resindex i ${shardKeys.length} delar och route-directions.json`);
+
+        // Steg 3c: Trafikkalender per service_id. Format: { w: veckodagar mån–sön ("1111100"),
+        // s/e: första/sista datum, a: extra trafikdagar, r: inställda trafikdagar } (datum som YYYYMMDD)
+        const serviceCalendar = {};
+        const getService = (id) => serviceCalendar[id] || (serviceCalendar[id] = {});
+        if (entries.has('calendar.txt')) {
+            await streamCsvFromEntry(entries.get('calendar.txt'), (row) => {
+                if (!slServiceIds.has(row.service_id)) return;
+                const service = getService(row.service_id);
+                service.w = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map(d => row[d] === '1' ? '1' : '0').join('');
+                service.s = row.start_date;
+                service.e = row.end_date;
+            }, 'calendar.txt');
+        }
+        if (entries.has('calendar_dates.txt')) {
+            await streamCsvFromEntry(entries.get('calendar_dates.txt'), (row) => {
+                if (!slServiceIds.has(row.service_id)) return;
+                const service = getService(row.service_id);
+                const key = row.exception_type === '1' ? 'a' : row.exception_type === '2' ? 'r' : null;
+                if (!key) return;
+                if (!service[key]) service[key] = [];
+                service[key].push(row.date);
+            }, 'calendar_dates.txt');
+        }
+        fileHashes['services.json'] = writeHashed(path.join(OUT_DIR, 'services.json'), JSON.stringify(serviceCalendar));
+        console.log(` -> Sparade trafikkalender för ${Object.keys(serviceCalendar).length} av ${slServiceIds.size} service_id.`);
 
 
         // Steg 4: Hitta alla hållplatstider och unika hållplatser
-        console.log('\n[4/7] Filtrerar hållplatstider...');
+        console.log('\n[4/9] Filtrerar hållplatstider...');
         const slStopIds = new Set();
         const stopTimesByTrip = new Map();
         await streamCsvFromEntry(entries.get('stop_times.txt'), (row) => {
@@ -147,11 +259,15 @@ async function processGTFS() {
         console.log(` -> Hittade ${stopTimesByTrip.size} resor med avgångstider och ${slStopIds.size} unika hållplatser.`);
         
         // Steg 5: Läs in alla relevanta hållplatser och former i minnet
-        console.log('\n[5/7] Laddar hållplats- och form-data...');
+        console.log('\n[5/9] Laddar hållplats- och form-data...');
         const stopsMap = new Map();
+        // Stationer (location_type 1) trafikeras inte själva utan grupperar lägena via parent_station
+        const stationRows = new Map();
         await streamCsvFromEntry(entries.get('stops.txt'), (row) => {
             if (slStopIds.has(row.stop_id)) {
                 stopsMap.set(row.stop_id, row);
+            } else if (row.location_type === '1') {
+                stationRows.set(row.stop_id, row);
             }
         }, 'stops.txt');
         const shapesMap = new Map();
@@ -164,80 +280,211 @@ async function processGTFS() {
         console.log(` -> Laddade ${stopsMap.size} hållplatser och ${shapesMap.size} former.`);
         
         // Steg 6: Spara alla SL-hållplatser till en enda fil
-        console.log('\n[6/7] Sparar alla SL-hållplatser...');
-        const allStops = Array.from(stopsMap.values()).map(s => ({
-            id: s.stop_id,
-            name: s.stop_name,
-            lat: parseFloat(s.stop_lat),
-            lng: parseFloat(s.stop_lon),
-        }));
-        fs.writeFileSync(path.join(OUT_DIR, 'stops.json'), JSON.stringify(allStops));
-        console.log(` -> Sparade ${allStops.length} hållplatser till public/data/stops.json.`);
+        console.log('\n[6/9] Sparar alla SL-hållplatser...');
+        // Linjer (route_id) som trafikerar varje hållplats, och via lägena varje station
+        const linesByStop = new Map();
+        const addLine = (stopId, routeId) => {
+            if (!linesByStop.has(stopId)) linesByStop.set(stopId, new Set());
+            linesByStop.get(stopId).add(routeId);
+        };
+        for (const [tripId, stopTimes] of stopTimesByTrip) {
+            const routeId = tripToRouteMap[tripId]?.r;
+            if (!routeId) continue;
+            for (const st of stopTimes) {
+                addLine(st.stop_id, routeId);
+                const parent = stopsMap.get(st.stop_id)?.parent_station;
+                if (parent) addLine(parent, routeId);
+            }
+        }
+        const usedStations = new Set(Array.from(stopsMap.values()).map(s => s.parent_station).filter(Boolean));
+
+        const toStopEntry = (s) => {
+            const entry = {
+                id: s.stop_id,
+                name: s.stop_name,
+                lat: parseFloat(s.stop_lat),
+                lng: parseFloat(s.stop_lon),
+                lines: Array.from(linesByStop.get(s.stop_id) || []),
+            };
+            if (s.parent_station) entry.parent_station = s.parent_station;
+            if (s.location_type) entry.location_type = parseInt(s.location_type);
+            if (s.platform_code) entry.platform_code = s.platform_code;
+            return entry;
+        };
+        const stations = Array.from(stationRows.values()).filter(s => usedStations.has(s.stop_id));
+        const allStops = [...Array.from(stopsMap.values()), ...stations].map(toStopEntry);
+        fileHashes['stops.json'] = writeHashed(path.join(OUT_DIR, 'stops.json'), JSON.stringify(allStops));
+        console.log(` -> Sparade ${allStops.length} hållplatser (varav ${stations.length} stationer) till public/data/stops.json.`);
 
         // Steg 7: Generera en JSON-fil för varje rutt
-        console.log('\n[7/7] Genererar JSON-filer för varje linje...');
+        console.log('\n[7/9] Genererar JSON-filer för varje linje...');
         const manifest = [];
         let generatedCount = 0;
+        resetDir(LINES_OUT_DIR);
         
         for (const routeId of slRouteIds) {
             const route = routesData.get(routeId);
             const tripsForRoute = tripsByRoute.get(routeId) || [];
             if (tripsForRoute.length === 0) continue;
 
-            let bestTrip = null;
-            let maxStops = 0;
+            // Trafikdygn och tidsspann för varje resa: [index i service_ids, första avgång, sista ankomst]
+            // i sekunder efter midnatt. Ligger i varianten, i samma ordning som dess trip_ids.
+            const serviceIds = Array.from(new Set(tripsForRoute.map(t => t.service_id)));
+            const scheduleOf = (trip) => {
+                const times = (stopTimesByTrip.get(trip.trip_id) || [])
+                    .map(st => parseGtfsTime(st.departure_time || st.arrival_time))
+                    .filter(time => time !== null);
+                return [
+                    serviceIds.indexOf(trip.service_id),
+                    times.length > 0 ? Math.min(...times) : null,
+                    times.length > 0 ? Math.max(...times) : null
+                ];
+            };
+
+            // Dela upp resorna i varianter: en per riktning, form och hållplatsföljd
+            const variantsByKey = new Map();
             for (const trip of tripsForRoute) {
-                const stopCount = (stopTimesByTrip.get(trip.trip_id) || []).length;
-                if (stopCount > maxStops) {
-                    maxStops = stopCount;
-                    bestTrip = trip;
+                const stopIds = (stopTimesByTrip.get(trip.trip_id) || [])
+                    .slice()
+                    .sort((a, b) => parseInt(a.stop_sequence) - parseInt(b.stop_sequence))
+                    .map(st => st.stop_id);
+                if (stopIds.length < 2) continue;
+
+                const key = `${trip.direction_id || ''}|${trip.shape_id || ''}|${stopIds.join(',')}`;
+                if (!variantsByKey.has(key)) {
+                    variantsByKey.set(key, { directionId: trip.direction_id, shapeId: trip.shape_id, stopIds, trips: [] });
                 }
+                variantsByKey.get(key).trips.push(trip);
             }
-            if (!bestTrip) continue;
-
-            const tripStopsRaw = (stopTimesByTrip.get(bestTrip.trip_id) || [])
-                .sort((a, b) => parseInt(a.stop_sequence) - parseInt(b.stop_sequence));
-            
-            const stops = tripStopsRaw
-                .map(st => stopsMap.get(st.stop_id))
-                .filter(Boolean)
-                .map(s => ({
-                    id: s.stop_id,
-                    name: s.stop_name,
-                    lat: parseFloat(s.stop_lat),
-                    lng: parseFloat(s.stop_lon)
-                }));
-            
-            if (stops.length < 2) continue;
-
-            const shapePoints = (shapesMap.get(bestTrip.shape_id) || [])
-                .sort((a, b) => parseInt(a.shape_pt_sequence) - parseInt(b.shape_pt_sequence))
-                .map(s => [parseFloat(s.shape_pt_lat), parseFloat(s.shape_pt_lon)]);
-            
-            const allTripIds = tripsForRoute.map(t => t.trip_id);
+
+            // Vanligaste varianten först inom varje riktning, riktning 0 före 1
+            const variants = Array.from(variantsByKey.values())
+                .sort((a, b) => (a.directionId || '').localeCompare(b.directionId || '') || b.trips.length - a.trips.length)
+                .map((variant, index) => {
+                    const stops = variant.stopIds
+                        .map(id => stopsMap.get(id))
+                        .filter(Boolean)
+                        .map(s => ({
+                            id: s.stop_id,
+                            name: s.stop_name,
+                            lat: parseFloat(s.stop_lat),
+                            lng: parseFloat(s.stop_lon)
+                        }));
+
+                    const shapePoints = (shapesMap.get(variant.shapeId) || [])
+                        .sort((a, b) => parseInt(a.shape_pt_sequence) - parseInt(b.shape_pt_sequence))
+                        .map(s => [parseFloat(s.shape_pt_lat), parseFloat(s.shape_pt_lon)]);
+
+                    // Vanligaste destinationen bland variantens resor
+                    const headsignCounts = new Map();
+                    variant.trips.forEach(t => {
+                        if (t.trip_headsign) headsignCounts.set(t.trip_headsign, (headsignCounts.get(t.trip_headsign) || 0) + 1);
+                    });
+                    const headsign = Array.from(headsignCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+                        || (stops.length > 0 ? stops[stops.length - 1].name : '');
+
+                    return {
+                        id: `${variant.directionId || 'x'}-${index}`,
+                        direction_id: variant.directionId !== undefined && variant.directionId !== '' ? parseInt(variant.directionId) : null,
+                        headsign,
+                        trip_ids: variant.trips.map(t => t.trip_id),
+                        trip_schedule: variant.trips.map(scheduleOf),
+                        path: shapePoints.length > 0 ? shapePoints : stops.map(s => [s.lat, s.lng]),
+                        stops
+                    };
+                })
+                .filter(v => v.stops.length >= 2);
+
+            if (variants.length === 0) continue;
+
+            // Huvudvarianten (flest resor) ligger även på toppnivå för äldre klienter.
+            // Resorna finns bara i varianterna, klienten bygger linjens lista av dem.
+            const mainVariant = variants.reduce((best, v) => v.trip_ids.length > best.trip_ids.length ? v : best);
+            const stops = mainVariant.stops;
 
             const output = {
                 id: route.route_id,
                 line: route.route_short_name,
                 description: route.route_long_name,
-                trip_ids: allTripIds,
-                path: shapePoints.length > 0 ? shapePoints : stops.map(s => [s.lat, s.lng]),
-                stops: stops
+                route_type: parseInt(route.route_type),
+                service_ids: serviceIds,
+                path: mainVariant.path,
+                stops: stops,
+                variants
             };
 
-            fs.writeFileSync(path.join(LINES_OUT_DIR, `${route.route_id}.json`), JSON.stringify(output));
+            const lineHash = writeHashed(path.join(LINES_OUT_DIR, `${route.route_id}.json`), JSON.stringify(output));
             manifest.push({
                 id: route.route_id,
                 line: route.route_short_name,
                 description: route.route_long_name,
+                route_type: parseInt(route.route_type),
                 from: stops[0].name,
-                to: stops[stops.length - 1].name
+                to: stops[stops.length - 1].name,
+                hash: lineHash
             });
             generatedCount++;
         }
-        
-        fs.writeFileSync(path.join(OUT_DIR, 'manifest.json'), JSON.stringify(manifest));
-        console.log(` -> Genererade ${generatedCount} linjefiler och en manifest.json.`);
+        console.log(` -> Genererade ${generatedCount} linjefiler.`);
+
+        // Steg 8: Generera en avgångstavla per hållplats
+        // Format per avgång: { t: trip_id, r: route_id, h: headsign, d: avgångstid i sekunder efter midnatt, q: stop_sequence, s: service_id }
+        console.log('\n[8/9] Genererar avgångsfiler för varje hållplats...');
+        const tripsById = new Map();
+        for (const trips of tripsByRoute.values()) {
+            trips.forEach(t => tripsById.set(t.trip_id, t));
+        }
+
+        const departuresByStop = new Map();
+        for (const [tripId, stopTimes] of stopTimesByTrip) {
+            const trip = tripsById.get(tripId);
+            if (!trip) continue;
+
+            const sorted = [...stopTimes].sort((a, b) => parseInt(a.stop_sequence) - parseInt(b.stop_sequence));
+            // Sista hållplatsen är ingen avgång
+            sorted.slice(0, -1).forEach(st => {
+                const seconds = parseGtfsTime(st.departure_time || st.arrival_time);
+                if (seconds === null) return;
+
+                if (!departuresByStop.has(st.stop_id)) departuresByStop.set(st.stop_id, []);
+                departuresByStop.get(st.stop_id).push({
+                    t: tripId,
+                    r: trip.route_id,
+                    h: st.stop_headsign || trip.trip_headsign || '',
+                    d: seconds,
+                    q: parseInt(st.stop_sequence),
+                    s: trip.service_id
+                });
+            });
+        }
+
+        // Avgångsfilerna är för många för egna hashar i manifestet, de får en gemensam
+        const departuresHash = createHash('sha256');
+        resetDir(DEPARTURES_OUT_DIR);
+        for (const stopId of Array.from(departuresByStop.keys()).sort()) {
+            const departures = departuresByStop.get(stopId).sort((a, b) => a.d - b.d);
+            const content = JSON.stringify(departures);
+            fs.writeFileSync(path.join(DEPARTURES_OUT_DIR, `${stopId}.json`), content);
+            departuresHash.update(stopId).update(content);
+        }
+        fileHashes['departures'] = departuresHash.digest('hex').slice(0, 12);
+        console.log(` -> Genererade avgångsfiler för ${departuresByStop.size} hållplatser.`);
+
+        // Steg 9: Manifest med dataversion. Versionen byts när någon utdatafil ändras,
+        // och det är den klienten jämför för att avgöra om IndexedDB behöver fyllas på nytt.
+        console.log('\n[9/9] Sparar manifest med dataversion...');
+        const contentHash = hashContent(JSON.stringify({ files: fileHashes, lines: manifest.map(r => [r.id, r.hash]) }));
+        const feedLabel = feedInfo?.version || feedInfo?.startDate || 'gtfs';
+        const version = `${feedLabel.replace(/[^\w.-]/g, '_')}-${contentHash}`;
+
+        fs.writeFileSync(path.join(OUT_DIR, 'manifest.json'), JSON.stringify({
+            version,
+            feed: feedInfo,
+            generatedAt: new Date().toISOString(),
+            files: fileHashes,
+            routes: manifest
+        }));
+        console.log(` -> Dataversion ${version}`);
 
         console.log('\n--- Bearbetning klar! ---');
         console.log(`All data har sparats i mappen: ${OUT_DIR}`);
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { buildStopDepartures, ScheduledDepartureEntry, DepartureContext } from './departures';
+import { TripUpdateInfo } from './vehicleBuilder';
+
+const STOP_ID = '9022001010098002';
+const ROUTE_ID = '9011001000400000';
+
+// Tisdag 2025-10-14 kl 12:00 lokal tid
+const now = new Date(2025, 9, 14, 12, 0).getTime();
+const at = (hours: number, minutes: number) => new Date(2025, 9, 14, hours, minutes).getTime();
+const seconds = (hours: number, minutes: number) => hours * 3600 + minutes * 60;
+
+const entry = (t: string, hours: number, minutes: number, overrides: Partial<ScheduledDepartureEntry> = {}): ScheduledDepartureEntry =>
+    ({ t, r: ROUTE_ID, h: 'Radiohuset', d: seconds(hours, minutes), q: 5, ...overrides });
+
+const context = (tripUpdates: Record<string, TripUpdateInfo> = {}, overrides: Partial<DepartureContext> = {}): DepartureContext => ({
+    now,
+    tripUpdates: new Map(Object.entries(tripUpdates)),
+    routeDirections: { [ROUTE_ID]: { '0': 'Radiohuset', '1': 'Gullmarsplan' } },
+    runsOn: () => true,
+    ...overrides
+});
+
+describe('buildStopDepartures', () => {
+    it('sorterar på prognos i första hand och tidtabell annars', () => {
+        const departures = buildStopDepartures(STOP_ID, [
+            entry('sen', 12, 5),
+            entry('enligt-tabell', 12, 10)
+        ], context({
+            sen: { startDate: '20251014', stopTimes: [{ stopId: STOP_ID, stopSequence: 5, departureTime: at(12, 20) }] }
+        }));
+
+        expect(departures.map(d => d.tripId)).toEqual(['enligt-tabell', 'sen']);
+        expect(departures[1]).toMatchObject({ scheduled: at(12, 5), predicted: at(12, 20), delay: 900, isRealtime: true });
+        expect(departures[0]).toMatchObject({ scheduled: at(12, 10), predicted: undefined, isRealtime: false });
+    });
+
+    it('visar bara avgångar inom tidsfönstret och högst limit stycken', () => {
+        const scheduled = [
+            entry('gick-for-fem-min', 11, 55),
+            entry('gick-nyss', 11, 59),
+            entry('snart', 12, 15),
+            entry('om-en-timme', 13, 0),
+            entry('om-tva-timmar', 14, 0)
+        ];
+        expect(buildStopDepartures(STOP_ID, scheduled, context()).map(d => d.tripId)).toEqual(['gick-nyss', 'snart', 'om-en-timme']);
+        expect(buildStopDepartures(STOP_ID, scheduled, context(), 2).map(d => d.tripId)).toEqual(['gick-nyss', 'snart']);
+    });
+
+    it('räknar med en försenad avgång även om tidtabellstiden har passerat', () => {
+        const departures = buildStopDepartures(STOP_ID, [entry('forsenad', 11, 50)], context({
+            forsenad: { startDate: '20251014', stopTimes: [{ stopSequence: 3, delay: 900 }] }
+        }));
+        expect(departures).toHaveLength(1);
+        expect(departures[0]).toMatchObject({ predicted: at(12, 5), delay: 900 });
+    });
+
+    it('använder bara prognoser för det egna trafikdygnet', () => {
+        const departures = buildStopDepartures(STOP_ID, [entry('igar', 12, 10)], context({
+            igar: { startDate: '20251013', stopTimes: [{ stopId: STOP_ID, departureTime: at(12, 25) }] }
+        }));
+        expect(departures[0]).toMatchObject({ predicted: undefined, isRealtime: false });
+    });
+
+    it('bortser från prognoser utan startdatum som ligger långt från tidtabellen', () => {
+        const departures = buildStopDepartures(STOP_ID, [entry('utan-datum', 12, 10)], context({
+            'utan-datum': { stopTimes: [{ stopId: STOP_ID, departureTime: at(12, 10) + 1000 * 60 * 60 * 20 }] }
+        }));
+        expect(departures[0]).toMatchObject({ predicted: undefined, delay: undefined, isRealtime: false });
+    });
+
+    it('markerar inställda resor och hållplatser som passeras utan stopp', () => {
+        const departures = buildStopDepartures(STOP_ID, [entry('installd', 12, 10), entry('passerar', 12, 20)], context({
+            installd: { startDate: '20251014', scheduleRelationship: 'CANCELED', stopTimes: [] },
+            passerar: { startDate: '20251014', stopTimes: [{ stopId: STOP_ID, scheduleRelationship: 'SKIPPED' }] }
+        }));
+        expect(departures.map(d => [d.tripId, d.isCancelled, d.isRealtime])).toEqual([['installd', true, true], ['passerar', true, true]]);
+    });
+
+    it('tar med gårdagens avgångar efter midnatt och följer trafikkalendern', () => {
+        const lateNight = new Date(2025, 9, 15, 0, 20).getTime();
+        const departures = buildStopDepartures(STOP_ID, [
+            entry('natt', 24, 30, { s: 'vardag' }),
+            entry('helg', 0, 40, { s: 'helg' })
+        ], context({}, { now: lateNight, runsOn: serviceId => serviceId === 'vardag' }));
+
+        expect(departures).toHaveLength(1);
+        expect(departures[0]).toMatchObject({ tripId: 'natt', scheduled: new Date(2025, 9, 15, 0, 30).getTime() });
+    });
+
+    it('hämtar destinationen från linjens riktning när avgången saknar en', () => {
+        const departures = buildStopDepartures(STOP_ID, [entry('utan-destination', 12, 10, { h: '' })], context({
+            'utan-destination': { startDate: '20251014', directionId: 1, stopTimes: [] }
+        }));
+        expect(departures[0].headsign).toBe('Gullmarsplan');
+    });
+});
@@ -0,0 +1,99 @@
+import { StopDeparture } from '../types';
+import { RouteDirectionMap, TripUpdateInfo } from './vehicleBuilder';
+import { startOfServiceDay, toServiceDate } from './serviceCalendar';
+
+// Avgångstavla för en hållplats: tidtabellen från /data/departures kombinerad med prognoser
+// från TripUpdates. Ren logik, hämtningen av filerna och flödet sköts av slService.
+
+// Tidsfönster för avgångstavlan
+const DEPARTURE_WINDOW_PAST = 1000 * 60 * 2;
+const DEPARTURE_WINDOW_AHEAD = 1000 * 60 * 90;
+// Prognoser längre än så här från tidtabellen hör till en annan dags resa, när TripUpdate saknar startdatum
+const MAX_PREDICTION_OFFSET = 1000 * 60 * 60 * 12;
+
+// Avgång från per-hållplats-filerna i /data/departures
+export interface ScheduledDepartureEntry {
+    t: string; // trip_id
+    r: string; // route_id
+    h: string; // headsign
+    d: number; // avgångstid i sekunder efter midnatt (kan överstiga 24h)
+    q: number; // stop_sequence
+    s?: string; // service_id, saknas i data utan trafikkalender
+}
+
+export interface DepartureContext {
+    now: number;
+    tripUpdates: Map<string, TripUpdateInfo>;
+    routeDirections: RouteDirectionMap | null;
+    // Om en resa med det här service_id går ett visst trafikdygn
+    runsOn: (serviceId: string | undefined, day: Date) => boolean;
+}
+
+// De närmaste avgångarna i tidsordning, med prognosen i första hand
+export function buildStopDepartures(stopId: string, scheduled: ScheduledDepartureEntry[], context: DepartureContext, limit = 12): StopDeparture[] {
+    const { now, tripUpdates, routeDirections, runsOn } = context;
+    const today = new Date(startOfServiceDay(now));
+    const yesterday = new Date(today);
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    const departures: StopDeparture[] = [];
+    // Tidtabellstider kan överstiga 24:00, så även gårdagens trafikdygn kan ha avgångar nu
+    for (const serviceDay of [yesterday, today]) {
+        for (const entry of scheduled) {
+            if (!runsOn(entry.s, serviceDay)) continue;
+            const scheduledTime = serviceDay.getTime() + entry.d * 1000;
+            // Samma trip_id körs varje dag, så prognosen gäller bara trafikdygnet den är utfärdad för
+            const update = tripUpdates.get(entry.t);
+            const info = update && (!update.startDate || update.startDate === toServiceDate(serviceDay)) ? update : undefined;
+
+            let predicted: number | undefined;
+            let delay: number | undefined;
+            let isCancelled = false;
+            if (info) {
+                // Exakt träff på hållplatsen, annars senaste kända försening före den
+                const exact = info.stopTimes.find(st => st.stopId === stopId || st.stopSequence === entry.q);
+                const prior = exact || [...info.stopTimes].reverse().find(st => st.stopSequence !== undefined && st.stopSequence <= entry.q);
+                if (info.scheduleRelationship === 'CANCELED' || exact?.scheduleRelationship === 'SKIPPED') {
+                    isCancelled = true;
+                } else if (exact && (exact.departureTime || exact.arrivalTime)) {
+                    predicted = exact.departureTime || exact.arrivalTime;
+                    delay = Math.round(((predicted as number) - scheduledTime) / 1000);
+                } else if (prior?.delay !== undefined) {
+                    delay = prior.delay;
+                    predicted = scheduledTime + delay * 1000;
+                }
+                if (!info.startDate && predicted !== undefined && Math.abs(predicted - scheduledTime) > MAX_PREDICTION_OFFSET) {
+                    predicted = undefined;
+                    delay = undefined;
+                }
+            }
+
+            const effectiveTime = predicted ?? scheduledTime;
+            if (effectiveTime < now - DEPARTURE_WINDOW_PAST || effectiveTime > now + DEPARTURE_WINDOW_AHEAD) continue;
+
+            departures.push({
+                tripId: entry.t,
+                routeId: entry.r,
+                headsign: entry.h || routeDirections?.[entry.r]?.[String(info?.directionId)] || "Okänd",
+                scheduled: scheduledTime,
+                predicted,
+                delay,
+                isRealtime: predicted !== undefined || isCancelled,
+                isCancelled
+            });
+        }
+    }
+
+    // Data utan trafikkalender har samma avgång för flera veckodagar.
+    // Behåll en avgång per linje, destination och tid, och föredra den med realtidsdata.
+    const unique = new Map<string, StopDeparture>();
+    for (const d of departures) {
+        const key = `${d.routeId}|${d.headsign}|${d.scheduled}`;
+        const existing = unique.get(key);
+        if (!existing || (!existing.isRealtime && d.isRealtime)) unique.set(key, d);
+    }
+
+    return Array.from(unique.values())
+        .sort((a, b) => (a.predicted ?? a.scheduled) - (b.predicted ?? b.scheduled))
+        .slice(0, limit);
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { trailToGeoJSON, trailToGpx, parseTrailExportFormat } from './exportFormats';
+import { HistoryPoint } from '../types';
+
+const points: HistoryPoint[] = [
+    { lat: 59.3426, lng: 18.0491, ts: 1760438396000, delay: 120, speed: 31 },
+    { lat: 59.3431, lng: 18.0512, ts: 1760438426000 }
+];
+
+describe('parseTrailExportFormat', () => {
+    it('godkänner kända format och har geojson som standard', () => {
+        expect(parseTrailExportFormat('gpx')).toBe('gpx');
+        expect(parseTrailExportFormat('csv')).toBe('csv');
+        expect(parseTrailExportFormat(undefined)).toBe('geojson');
+    });
+
+    it('avvisar okända format, ärvda egenskaper och upprepade parametrar', () => {
+        expect(parseTrailExportFormat('kml')).toBeNull();
+        expect(parseTrailExportFormat('toString')).toBeNull();
+        expect(parseTrailExportFormat('constructor')).toBeNull();
+        expect(parseTrailExportFormat('__proto__')).toBeNull();
+        expect(parseTrailExportFormat(['gpx', 'csv'])).toBeNull();
+        expect(parseTrailExportFormat('')).toBeNull();
+    });
+});
+
+describe('trailToGeoJSON', () => {
+    it('skriver en LineString för spår med flera punkter', () => {
+        expect(trailToGeoJSON('t1', points).geometry).toEqual({
+            type: 'LineString',
+            coordinates: [[18.0491, 59.3426], [18.0512, 59.3431]]
+        });
+    });
+
+    it('skriver en Point för spår med en punkt', () => {
+        expect(trailToGeoJSON('t1', points.slice(0, 1)).geometry).toEqual({ type: 'Point', coordinates: [18.0491, 59.3426] });
+    });
+
+    it('saknar geometri för tomma spår', () => {
+        expect(trailToGeoJSON('t1', []).geometry).toBeNull();
+    });
+});
+
+describe('trailToGpx', () => {
+    it('lägger egna fält i en deklarerad namnrymd', () => {
+        const gpx = trailToGpx('t1', points);
+        expect(gpx).toMatch(/<gpx [^>]*xmlns:sl="[^"]+"/);
+        expect(gpx).toContain('<extensions><sl:delay>120</sl:delay><sl:speed>31</sl:speed></extensions>');
+        expect(gpx).not.toMatch(/<(delay|speed)>/);
+        // Punkter utan extra fält får inget extensions-element
+        expect(gpx).toContain('<trkpt lat="59.3431" lon="18.0512"><time>2025-10-14T10:40:26.000Z</time></trkpt>');
+    });
+});
@@ -0,0 +1,124 @@
+import { HistoryPoint, SLVehicle } from '../types';
+
+// Export av spår och fordonslägen till format som går att öppna i QGIS och kalkylprogram.
+// Används av api/export/*. Koordinater skrivs som [lng, lat] enligt GeoJSON.
+
+export type TrailExportFormat = 'geojson' | 'gpx' | 'csv';
+
+export const TRAIL_EXPORT_FORMATS: Record<TrailExportFormat, { contentType: string; extension: string }> = {
+    geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+    gpx: { contentType: 'application/gpx+xml', extension: 'gpx' },
+    csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' }
+};
+
+// Namnrymd för de egna fälten i GPX-filernas <extensions>
+const GPX_EXTENSION_NS = 'urn:sl-live-tracker:gpx-extensions:1';
+
+// Formatet från en query-parameter. Bara egna nycklar räknas, så att t.ex. "toString" inte godkänns.
+export function parseTrailExportFormat(value: unknown): TrailExportFormat | null {
+    if (value === undefined) return 'geojson';
+    if (typeof value !== 'string' || !Object.prototype.hasOwnProperty.call(TRAIL_EXPORT_FORMATS, value)) return null;
+    return value as TrailExportFormat;
+}
+
+const toIso = (ts: number) => new Date(ts).toISOString();
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Citera fält som innehåller avgränsare, citattecken eller radbrytningar
+const csvField = (value: string | number | undefined) => {
+    if (value === undefined) return '';
+    const s = String(value);
+    return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// En LineString kräver minst två positioner (RFC 7946), ett spår med en punkt blir en Point
+function trailGeometry(points: HistoryPoint[]) {
+    if (points.length === 0) return null;
+    if (points.length === 1) return { type: 'Point', coordinates: [points[0].lng, points[0].lat] };
+    return { type: 'LineString', coordinates: points.map(p => [p.lng, p.lat]) };
+}
+
+export function trailToGeoJSON(tripId: string, points: HistoryPoint[]) {
+    return {
+        type: 'Feature',
+        properties: {
+            tripId,
+            start: points.length > 0 ? toIso(points[0].ts) : null,
+            end: points.length > 0 ? toIso(points[points.length - 1].ts) : null,
+            // Samma ordning som koordinaterna, så att varje punkt går att koppla till sin tid och försening
+            times: points.map(p => toIso(p.ts)),
+            delays: points.map(p => p.delay ?? null)
+        },
+        geometry: trailGeometry(points)
+    };
+}
+
+export function trailToGpx(tripId: string, points: HistoryPoint[]) {
+    const trkpts = points.map(p => {
+        // Försening (s) och hastighet (km/h) saknar standardfält i GPX 1.1
+        const extra = (p.delay !== undefined ? `<sl:delay>${p.delay}</sl:delay>` : '') +
+            (p.speed !== undefined ? `<sl:speed>${p.speed}</sl:speed>` : '');
+        const extensions = extra ? `<extensions>${extra}</extensions>` : '';
+        return `      <trkpt lat="${p.lat}" lon="${p.lng}"><time>${toIso(p.ts)}</time>${extensions}</trkpt>`;
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<gpx version="1.1" creator="SL Live Tracker" xmlns="http://www.topografix.com/GPX/1/1" xmlns:sl="${GPX_EXTENSION_NS}">`,
+        '  <trk>',
+        `    <name>${escapeXml(tripId)}</name>`,
+        '    <trkseg>',
+        ...trkpts,
+        '    </trkseg>',
+        '  </trk>',
+        '</gpx>',
+        ''
+    ].join('\n');
+}
+
+export function trailToCsv(tripId: string, points: HistoryPoint[]) {
+    const header = 'trip_id,timestamp,time,lat,lng,delay_s,speed_kmh,bearing,direction_id';
+    const rows = points.map(p => [
+        csvField(tripId),
+        p.ts,
+        toIso(p.ts),
+        p.lat,
+        p.lng,
+        csvField(p.delay),
+        csvField(p.speed),
+        csvField(p.bearing),
+        csvField(p.directionId)
+    ].join(','));
+    return [header, ...rows, ''].join('\n');
+}
+
+export function vehiclesToGeoJSON(vehicles: SLVehicle[], timestamp: number) {
+    return {
+        type: 'FeatureCollection',
+        properties: { timestamp: toIso(timestamp), count: vehicles.length },
+        features: vehicles.map(v => ({
+            type: 'Feature',
+            id: v.id,
+            properties: {
+                id: v.id,
+                routeId: v.line,
+                tripId: v.tripId,
+                operator: v.operator,
+                vehicleNumber: v.vehicleNumber,
+                destination: v.destination,
+                type: v.type,
+                bearing: v.bearing,
+                speed: v.speed,
+                delay: v.delay ?? null,
+                lastReport: v.lastReport ? toIso(v.lastReport) : null,
+                scheduleRelationship: v.scheduleRelationship ?? null
+            },
+            geometry: { type: 'Point', coordinates: [v.lng, v.lat] }
+        }))
+    };
+}
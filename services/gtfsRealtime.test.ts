@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { decodeFeed, getFeedTimestampMs } from './gtfsRealtime';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name));
+
+describe('decodeFeed', () => {
+    it('avkodar VehiclePositions med tal istället för Long', () => {
+        const feed = decodeFeed(fixture('vehicle-positions.pb'));
+
+        expect(feed.header.gtfsRealtimeVersion).toBe('2.0');
+        expect(feed.header.incrementality).toBe('FULL_DATASET');
+        expect(typeof feed.header.timestamp).toBe('number');
+        expect(getFeedTimestampMs(feed)).toBe(1760438400000);
+        expect(feed.entity).toHaveLength(6);
+
+        const first = feed.entity[0].vehicle!;
+        expect(first.trip).toMatchObject({ tripId: '14010000668563458', routeId: '9011001000400000', directionId: 0, startDate: '20251014', scheduleRelationship: 'SCHEDULED' });
+        expect(first.currentStatus).toBe('STOPPED_AT');
+        expect(first.currentStopSequence).toBe(7);
+        expect(typeof first.timestamp).toBe('number');
+        expect(first.timestamp).toBe(1760438396);
+        expect(first.position!.latitude).toBeCloseTo(59.3426, 4);
+        expect(first.position!.speed).toBeCloseTo(8.5, 4);
+    });
+
+    it('utelämnar fält som saknas i flödet', () => {
+        const feed = decodeFeed(fixture('vehicle-positions.pb'));
+        const bare = feed.entity[4].vehicle!;
+
+        expect(bare.currentStatus).toBeUndefined();
+        expect(bare.vehicle!.label).toBeUndefined();
+        expect(bare.position!.bearing).toBeUndefined();
+        expect(bare.trip!.directionId).toBeUndefined();
+    });
+
+    it('avkodar TripUpdates med överhoppade hållplatser och inställda resor', () => {
+        const feed = decodeFeed(fixture('trip-updates.pb'));
+        const [withSkipped, , , cancelled] = feed.entity;
+
+        const updates = withSkipped.tripUpdate!.stopTimeUpdate!;
+        expect(updates[0].scheduleRelationship).toBe('SKIPPED');
+        expect(updates[0].arrival).toBeUndefined();
+        expect(updates[1].arrival).toEqual({ delay: 120, time: 1760438460, uncertainty: 30 });
+        expect(typeof updates[1].departure!.time).toBe('number');
+
+        expect(feed.entity[1].tripUpdate!.stopTimeUpdate![0].departure!.delay).toBe(-45);
+
+        expect(cancelled.tripUpdate!.trip!.scheduleRelationship).toBe('CANCELED');
+        expect(cancelled.tripUpdate!.trip!.startTime).toBe('25:10:00');
+        expect(cancelled.tripUpdate!.stopTimeUpdate).toBeUndefined();
+    });
+});
@@ -0,0 +1,171 @@
+
+import protobuf from 'protobufjs';
+import { TripScheduleRelationship, StopScheduleRelationship } from '../types';
+
+// Gemensam GTFS-RT-avkodning för klienten och serverless-funktionerna.
+// protobufjs ger camelCase-fält, och med longs: Number blir uint64/int64 vanliga tal
+// (tidsstämplar i sekunder ryms gott i en double).
+
+const PROTO_DEF = `
+syntax = "proto2";
+package transit_realtime;
+message FeedMessage { required FeedHeader header = 1; repeated FeedEntity entity = 2; }
+message FeedHeader { required string gtfs_realtime_version = 1; optional Incrementality incrementality = 2 [default = FULL_DATASET]; optional uint64 timestamp = 3; enum Incrementality { FULL_DATASET = 0; DIFFERENTIAL = 1; } }
+message FeedEntity { required string id = 1; optional bool is_deleted = 2 [default = false]; optional TripUpdate trip_update = 3; optional VehiclePosition vehicle = 4; optional Alert alert = 5; }
+message VehiclePosition { optional TripDescriptor trip = 1; optional VehicleDescriptor vehicle = 8; optional Position position = 2; optional uint32 current_stop_sequence = 3; optional string stop_id = 7; optional VehicleStopStatus current_status = 4 [default = IN_TRANSIT_TO]; optional uint64 timestamp = 5;
+  enum VehicleStopStatus { INCOMING_AT = 0; STOPPED_AT = 1; IN_TRANSIT_TO = 2; }
+}
+message TripUpdate { optional TripDescriptor trip = 1; repeated StopTimeUpdate stop_time_update = 2; }
+message StopTimeUpdate { optional uint32 stop_sequence = 1; optional string stop_id = 4; optional StopTimeEvent arrival = 2; optional StopTimeEvent departure = 3; optional ScheduleRelationship schedule_relationship = 5 [default = SCHEDULED];
+  enum ScheduleRelationship { SCHEDULED = 0; SKIPPED = 1; NO_DATA = 2; UNSCHEDULED = 3; }
+}
+message StopTimeEvent { optional int32 delay = 1; optional int64 time = 2; optional int32 uncertainty = 3; }
+message TripDescriptor { optional string trip_id = 1; optional string route_id = 5; optional uint32 direction_id = 6; optional string start_time = 2; optional string start_date = 3; optional ScheduleRelationship schedule_relationship = 4;
+  enum ScheduleRelationship { SCHEDULED = 0; ADDED = 1; UNSCHEDULED = 2; CANCELED = 3; REPLACEMENT = 5; DUPLICATED = 6; DELETED = 7; }
+}
+message VehicleDescriptor { optional string id = 1; optional string label = 2; optional string license_plate = 3; }
+message Position { required float latitude = 1; required float longitude = 2; optional float bearing = 3; optional float speed = 5; }
+message Alert { repeated TimeRange active_period = 1; repeated EntitySelector informed_entity = 5; optional Cause cause = 6 [default = UNKNOWN_CAUSE]; optional Effect effect = 7 [default = UNKNOWN_EFFECT]; optional TranslatedString url = 8; optional TranslatedString header_text = 10; optional TranslatedString description_text = 11;
+  enum Cause { UNKNOWN_CAUSE = 1; OTHER_CAUSE = 2; TECHNICAL_PROBLEM = 3; STRIKE = 4; DEMONSTRATION = 5; ACCIDENT = 6; HOLIDAY = 7; WEATHER = 8; MAINTENANCE = 9; CONSTRUCTION = 10; POLICE_ACTIVITY = 11; MEDICAL_EMERGENCY = 12; }
+  enum Effect { NO_SERVICE = 1; REDUCED_SERVICE = 2; SIGNIFICANT_DELAYS = 3; DETOUR = 4; ADDITIONAL_SERVICE = 5; MODIFIED_SERVICE = 6; OTHER_EFFECT = 7; UNKNOWN_EFFECT = 8; STOP_MOVED = 9; NO_EFFECT = 10; ACCESSIBILITY_ISSUE = 11; }
+}
+message TimeRange { optional uint64 start = 1; optional uint64 end = 2; }
+message EntitySelector { optional string agency_id = 1; optional string route_id = 2; optional int32 route_type = 3; optional TripDescriptor trip = 4; optional string stop_id = 5; optional uint32 direction_id = 6; }
+message TranslatedString { message Translation { required string text = 1; optional string language = 2; } repeated Translation translation = 1; }
+`;
+
+export interface FeedHeader {
+  gtfsRealtimeVersion: string;
+  incrementality?: 'FULL_DATASET' | 'DIFFERENTIAL';
+  timestamp?: number; // sekunder sedan epoch
+}
+
+export interface TripDescriptor {
+  tripId?: string;
+  routeId?: string;
+  directionId?: number;
+  startTime?: string; // HH:MM:SS enligt tidtabellen
+  startDate?: string; // YYYYMMDD
+  scheduleRelationship?: TripScheduleRelationship;
+}
+
+export interface VehicleDescriptor {
+  id?: string;
+  label?: string;
+  licensePlate?: string;
+}
+
+export interface Position {
+  latitude: number;
+  longitude: number;
+  bearing?: number;
+  speed?: number; // m/s
+}
+
+export interface VehiclePosition {
+  trip?: TripDescriptor;
+  vehicle?: VehicleDescriptor;
+  position?: Position;
+  currentStopSequence?: number;
+  stopId?: string; // hållplatsen fordonet står vid eller är på väg till
+  currentStatus?: 'INCOMING_AT' | 'STOPPED_AT' | 'IN_TRANSIT_TO';
+  timestamp?: number; // sekunder sedan epoch
+}
+
+export interface StopTimeEvent {
+  delay?: number; // sekunder
+  time?: number; // sekunder sedan epoch
+  uncertainty?: number;
+}
+
+export interface StopTimeUpdate {
+  stopSequence?: number;
+  stopId?: string;
+  arrival?: StopTimeEvent;
+  departure?: StopTimeEvent;
+  scheduleRelationship?: StopScheduleRelationship;
+}
+
+export interface TripUpdate {
+  trip?: TripDescriptor;
+  stopTimeUpdate?: StopTimeUpdate[];
+}
+
+export interface TranslatedString {
+  translation?: { text: string; language?: string }[];
+}
+
+export interface TimeRange {
+  start?: number; // sekunder sedan epoch
+  end?: number;
+}
+
+export interface EntitySelector {
+  agencyId?: string;
+  routeId?: string;
+  routeType?: number;
+  trip?: TripDescriptor;
+  stopId?: string;
+  directionId?: number;
+}
+
+export interface Alert {
+  activePeriod?: TimeRange[];
+  informedEntity?: EntitySelector[];
+  cause?: string;
+  effect?: string;
+  url?: TranslatedString;
+  headerText?: TranslatedString;
+  descriptionText?: TranslatedString;
+}
+
+export interface FeedEntity {
+  id: string;
+  isDeleted?: boolean;
+  tripUpdate?: TripUpdate;
+  vehicle?: VehiclePosition;
+  alert?: Alert;
+}
+
+export interface FeedMessage {
+  header: FeedHeader;
+  entity: FeedEntity[];
+}
+
+let feedMessageType: protobuf.Type | null = null;
+
+function getFeedMessageType(): protobuf.Type {
+  if (!feedMessageType) {
+    feedMessageType = protobuf.parse(PROTO_DEF).root.lookupType("transit_realtime.FeedMessage");
+  }
+  return feedMessageType;
+}
+
+export function decodeFeed(buffer: ArrayBuffer | Uint8Array): FeedMessage {
+  const FeedMessage = getFeedMessageType();
+  const message = FeedMessage.decode(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer));
+  const object = FeedMessage.toObject(message, { enums: String, longs: Number, defaults: false });
+  return {
+    header: object.header,
+    entity: object.entity || []
+  };
+}
+
+// Motsatsen till decodeFeed. Används för att bygga testfixturerna i services/__fixtures__.
+export function encodeFeed(feed: FeedMessage): Uint8Array {
+  const FeedMessage = getFeedMessageType();
+  return FeedMessage.encode(FeedMessage.fromObject(feed)).finish();
+}
+
+// Feedens tidsstämpel i millisekunder
+export function getFeedTimestampMs(feed: FeedMessage): number | undefined {
+  return feed.header?.timestamp ? feed.header.timestamp * 1000 : undefined;
+}
+
+// Välj svensk översättning om den finns, annars den första
+export function pickTranslation(translated?: TranslatedString): string {
+  const translations = translated?.translation || [];
+  if (translations.length === 0) return "";
+  const sv = translations.find(t => t.language && t.language.toLowerCase().startsWith('sv'));
+  return (sv || translations[0]).text || "";
+}
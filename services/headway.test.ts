@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { computeHeadways, computeHeadwaysPerTrack } from './headway';
+import { buildRouteTrack } from './routeGeometry';
+import { SLVehicle } from '../types';
+
+// Österut längs en rak gata, och en kortvänd variant som bara kör den första biten
+const mainTrack = buildRouteTrack([[59.33, 18.0], [59.33, 18.1]]);
+const shortTrack = buildRouteTrack([[59.33, 18.0], [59.33, 18.04]]);
+
+const vehicle = (id: string, lng: number): SLVehicle => ({
+    id,
+    line: '9011001000400000',
+    tripId: `1401000066856${id}`,
+    directionId: 0,
+    operator: '',
+    vehicleNumber: id,
+    lat: 59.33,
+    lng,
+    bearing: 90,
+    speed: 30,
+    destination: '',
+    type: 'Buss'
+});
+
+describe('computeHeadways', () => {
+    it('räknar avståndet till fordonet före och efter i körriktningen', () => {
+        const result = computeHeadways([vehicle('2', 18.03), vehicle('1', 18.01)], mainTrack);
+        expect(result.segments.map(s => [s.behindId, s.aheadId])).toEqual([['1', '2']]);
+        expect(result.byVehicle.get('1')!.ahead).toMatchObject({ vehicleId: '2', status: 'normal' });
+        expect(result.byVehicle.get('1')!.ahead!.distance).toBeCloseTo(1137, -1);
+        expect(result.byVehicle.get('2')!.behind!.vehicleId).toBe('1');
+    });
+});
+
+describe('computeHeadwaysPerTrack', () => {
+    it('jämför bara fordon som följer samma variant', () => {
+        const result = computeHeadwaysPerTrack([
+            { vehicles: [vehicle('1', 18.01), vehicle('2', 18.03)], track: mainTrack },
+            { vehicles: [vehicle('3', 18.02)], track: shortTrack }
+        ]);
+        expect(result.segments.map(s => [s.behindId, s.aheadId])).toEqual([['1', '2']]);
+        expect(result.byVehicle.has('3')).toBe(false);
+    });
+
+    it('slår ihop resultaten från flera varianter', () => {
+        const result = computeHeadwaysPerTrack([
+            { vehicles: [vehicle('1', 18.01), vehicle('2', 18.03)], track: mainTrack },
+            { vehicles: [vehicle('3', 18.005), vehicle('4', 18.0053)], track: shortTrack }
+        ]);
+        expect(result.segments).toHaveLength(2);
+        expect(result.byVehicle.get('3')!.ahead).toMatchObject({ vehicleId: '4', status: 'bunched' });
+    });
+});
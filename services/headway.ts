@@ -0,0 +1,129 @@
+import { SLVehicle, HeadwayGap, HeadwayStatus, VehicleHeadway } from '../types';
+import { RouteTrack, projectOntoTrack, pointAlongTrack, getBearing, sliceTrack } from './routeGeometry';
+
+// Turtäthet för en linje: fordonen projiceras på linjens polylinje och avstånden mellan
+// på varandra följande fordon i samma riktning räknas fram, i meter och uppskattad tid.
+
+// Fordon längre från linjen än så här räknas inte (t.ex. på väg till eller från depå)
+const MAX_OFFSET_M = 150;
+// Närmare än så här räknas alltid som ihopklumpade, oavsett turtäthet
+const BUNCHING_DISTANCE_M = 250;
+// Gränser relativt medianavståndet (i tid) i riktningen
+const BUNCHING_RATIO = 0.3;
+const LARGE_GAP_RATIO = 2;
+// Medianen säger inte mycket med färre luckor än så här
+const MIN_GAPS_FOR_MEDIAN = 3;
+// Fordon under den här hastigheten har opålitlig kurs och används inte för att avgöra riktning
+const MIN_MOVING_SPEED_KMH = 5;
+// Används för tidsuppskattningen när inget fordon i riktningen rör sig
+const FALLBACK_SPEED_KMH = 20;
+
+export interface HeadwaySegment {
+    behindId: string;
+    aheadId: string;
+    path: [number, number][];
+    status: HeadwayStatus;
+}
+
+export interface HeadwayResult {
+    byVehicle: Map<string, VehicleHeadway>;
+    segments: HeadwaySegment[];
+}
+
+interface PlacedVehicle {
+    vehicle: SLVehicle;
+    along: number;
+    forward: boolean; // kör i samma riktning som polylinjen
+}
+
+// Om kursen går åt samma håll som linjen vid punkten
+function isHeadingForward(track: RouteTrack, along: number, bearing: number) {
+    const [aLat, aLng] = pointAlongTrack(track, along - 25);
+    const [bLat, bLng] = pointAlongTrack(track, along + 25);
+    const trackBearing = getBearing(aLat, aLng, bLat, bLng);
+    const diff = Math.abs(((bearing - trackBearing) % 360 + 540) % 360 - 180);
+    return diff < 90;
+}
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function computeHeadways(vehicles: SLVehicle[], track: RouteTrack): HeadwayResult {
+    const projected = vehicles
+        .map(vehicle => ({ vehicle, projection: projectOntoTrack(track, vehicle.lat, vehicle.lng) }))
+        .filter(p => p.projection && p.projection.offset <= MAX_OFFSET_M)
+        .map(p => ({
+            vehicle: p.vehicle,
+            along: p.projection!.along,
+            headingForward: isHeadingForward(track, p.projection!.along, p.vehicle.bearing)
+        }));
+
+    // Fordon med samma direction_id kör åt samma håll. Riktningen avgörs av majoriteten
+    // av de fordon som rör sig, så att ett stillastående fordon med gammal kurs hamnar rätt.
+    const votes = new Map<number, number>();
+    projected.forEach(p => {
+        if (p.vehicle.directionId === undefined || p.vehicle.speed < MIN_MOVING_SPEED_KMH) return;
+        votes.set(p.vehicle.directionId, (votes.get(p.vehicle.directionId) || 0) + (p.headingForward ? 1 : -1));
+    });
+
+    const placed: PlacedVehicle[] = projected.map(p => {
+        const vote = p.vehicle.directionId !== undefined ? votes.get(p.vehicle.directionId) : undefined;
+        return { vehicle: p.vehicle, along: p.along, forward: vote ? vote > 0 : p.headingForward };
+    });
+
+    const byVehicle = new Map<string, VehicleHeadway>();
+    const segments: HeadwaySegment[] = [];
+
+    [true, false].forEach(forward => {
+        // Sortera i körriktningen, så att nästa fordon i listan är det som ligger före
+        const group = placed
+            .filter(p => p.forward === forward)
+            .sort((a, b) => forward ? a.along - b.along : b.along - a.along);
+        if (group.length < 2) return;
+
+        const moving = group.filter(p => p.vehicle.speed >= MIN_MOVING_SPEED_KMH);
+        const speedKmh = moving.length > 0
+            ? moving.reduce((sum, p) => sum + p.vehicle.speed, 0) / moving.length
+            : FALLBACK_SPEED_KMH;
+
+        const gaps = group.slice(1).map((ahead, i) => {
+            const distance = Math.abs(ahead.along - group[i].along);
+            return { behind: group[i], ahead, distance, time: distance / (speedKmh / 3.6) };
+        });
+        const typical = gaps.length >= MIN_GAPS_FOR_MEDIAN ? median(gaps.map(g => g.time)) : null;
+
+        gaps.forEach(({ behind, ahead, distance, time }) => {
+            let status: HeadwayStatus = 'normal';
+            if (distance < BUNCHING_DISTANCE_M || (typical !== null && time < typical * BUNCHING_RATIO)) status = 'bunched';
+            else if (typical !== null && time > typical * LARGE_GAP_RATIO) status = 'gap';
+
+            const gap = (vehicleId: string): HeadwayGap => ({ vehicleId, distance: Math.round(distance), time: Math.round(time), status });
+            byVehicle.set(behind.vehicle.id, { ...byVehicle.get(behind.vehicle.id), ahead: gap(ahead.vehicle.id) });
+            byVehicle.set(ahead.vehicle.id, { ...byVehicle.get(ahead.vehicle.id), behind: gap(behind.vehicle.id) });
+
+            segments.push({
+                behindId: behind.vehicle.id,
+                aheadId: ahead.vehicle.id,
+                path: sliceTrack(track, behind.along, ahead.along),
+                status
+            });
+        });
+    });
+
+    return { byVehicle, segments };
+}
+
+// Linjer med flera varianter (riktningar, kortvändningar, grenar) räknas per körväg,
+// så att fordon bara jämförs med fordon som följer samma spår
+export function computeHeadwaysPerTrack(groups: { vehicles: SLVehicle[]; track: RouteTrack }[]): HeadwayResult {
+    const result: HeadwayResult = { byVehicle: new Map(), segments: [] };
+    groups.forEach(({ vehicles, track }) => {
+        const { byVehicle, segments } = computeHeadways(vehicles, track);
+        byVehicle.forEach((headway, id) => result.byVehicle.set(id, headway));
+        result.segments.push(...segments);
+    });
+    return result;
+}
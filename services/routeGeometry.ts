@@ -0,0 +1,162 @@
+
+import { HistoryPoint } from '../types';
+
+// Geometrihjälpare för att räkna på linjernas polylinjer (route.path)
+
+const EARTH_RADIUS_M = 6371e3;
+
+export interface RouteTrack {
+  path: [number, number][];
+  cumulative: number[]; // avstånd i meter från start till varje punkt i path
+  length: number;
+}
+
+export interface TrackProjection {
+  along: number; // meter längs linjen
+  offset: number; // meter från linjen
+  point: [number, number];
+}
+
+function deg2rad(deg: number) {
+  return deg * (Math.PI / 180);
+}
+
+// Helper för att beräkna avstånd i meter
+export function getDistanceFromLatLonInM(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_M * c;
+}
+
+// Kurs i grader (0 = norr) från en punkt till en annan
+export function getBearing(lat1: number, lon1: number, lat2: number, lon2: number) {
+  const y = Math.sin(deg2rad(lon2 - lon1)) * Math.cos(deg2rad(lat2));
+  const x = Math.cos(deg2rad(lat1)) * Math.sin(deg2rad(lat2)) -
+    Math.sin(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) * Math.cos(deg2rad(lon2 - lon1));
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
+
+export interface TrailPosition {
+  lat: number;
+  lng: number;
+  bearing: number;
+  delay?: number;
+}
+
+// Position längs ett sparat spår vid en viss tidpunkt, null om resan inte pågick då
+export function interpolateTrail(path: HistoryPoint[], time: number): TrailPosition | null {
+  if (path.length === 0 || time < path[0].ts || time > path[path.length - 1].ts) return null;
+  if (path.length === 1) return { lat: path[0].lat, lng: path[0].lng, bearing: 0, delay: path[0].delay };
+
+  let hi = 1;
+  while (hi < path.length - 1 && path[hi].ts < time) hi++;
+  const a = path[hi - 1];
+  const b = path[hi];
+  const t = b.ts > a.ts ? (time - a.ts) / (b.ts - a.ts) : 1;
+
+  // Står fordonet still används kursen från senaste förflyttningen, annars den rapporterade
+  let bearing = a.bearing ?? 0;
+  for (let i = hi; i > 0; i--) {
+    const p = path[i - 1];
+    const q = path[i];
+    if (p.lat !== q.lat || p.lng !== q.lng) {
+      bearing = getBearing(p.lat, p.lng, q.lat, q.lng);
+      break;
+    }
+  }
+
+  return {
+    lat: a.lat + t * (b.lat - a.lat),
+    lng: a.lng + t * (b.lng - a.lng),
+    bearing,
+    delay: t < 0.5 ? a.delay : b.delay
+  };
+}
+
+export function buildRouteTrack(path: [number, number][]): RouteTrack {
+  const cumulative = [0];
+  for (let i = 1; i < path.length; i++) {
+    const [lat1, lng1] = path[i - 1];
+    const [lat2, lng2] = path[i];
+    cumulative.push(cumulative[i - 1] + getDistanceFromLatLonInM(lat1, lng1, lat2, lng2));
+  }
+  return { path, cumulative, length: cumulative[cumulative.length - 1] || 0 };
+}
+
+// Projicera en punkt på närmaste segment. Lokalt plan (ekvirektangulär) räcker på dessa avstånd.
+export function projectOntoTrack(track: RouteTrack, lat: number, lng: number): TrackProjection | null {
+  const { path, cumulative } = track;
+  if (path.length < 2) return null;
+
+  const metersPerDegLat = 110540;
+  const metersPerDegLng = 111320 * Math.cos(deg2rad(lat));
+
+  let best: TrackProjection | null = null;
+  for (let i = 1; i < path.length; i++) {
+    const [aLat, aLng] = path[i - 1];
+    const [bLat, bLng] = path[i];
+    const ax = (aLng - lng) * metersPerDegLng;
+    const ay = (aLat - lat) * metersPerDegLat;
+    const dx = (bLng - aLng) * metersPerDegLng;
+    const dy = (bLat - aLat) * metersPerDegLat;
+    const segLenSq = dx * dx + dy * dy;
+
+    const t = segLenSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / segLenSq)) : 0;
+    const px = ax + t * dx;
+    const py = ay + t * dy;
+    const offset = Math.sqrt(px * px + py * py);
+
+    if (!best || offset < best.offset) {
+      best = {
+        along: cumulative[i - 1] + t * (cumulative[i] - cumulative[i - 1]),
+        offset,
+        point: [aLat + t * (bLat - aLat), aLng + t * (bLng - aLng)]
+      };
+    }
+  }
+  return best;
+}
+
+export function pointAlongTrack(track: RouteTrack, along: number): [number, number] {
+  const { path, cumulative } = track;
+  if (along <= 0) return path[0];
+  if (along >= track.length) return path[path.length - 1];
+
+  // Binärsökning efter segmentet som innehåller avståndet
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] <= along) lo = mid; else hi = mid;
+  }
+  const segLen = cumulative[hi] - cumulative[lo];
+  const t = segLen > 0 ? (along - cumulative[lo]) / segLen : 0;
+  const [aLat, aLng] = path[lo];
+  const [bLat, bLng] = path[hi];
+  return [aLat + t * (bLat - aLat), aLng + t * (bLng - aLng)];
+}
+
+// Delen av linjen mellan två avstånd, t.ex. sträckan mellan två fordon
+export function sliceTrack(track: RouteTrack, from: number, to: number): [number, number][] {
+  const start = Math.max(0, Math.min(from, to));
+  const end = Math.min(track.length, Math.max(from, to));
+  const inner = track.path.filter((_, i) => track.cumulative[i] > start && track.cumulative[i] < end);
+  return [pointAlongTrack(track, start), ...inner, pointAlongTrack(track, end)];
+}
+
+// Flytta en punkt ett visst avstånd i en given kurs (grader, 0 = norr)
+export function movePoint(lat: number, lng: number, bearing: number, distance: number): [number, number] {
+  const angular = distance / EARTH_RADIUS_M;
+  const brng = deg2rad(bearing);
+  const lat1 = deg2rad(lat);
+  const lng1 = deg2rad(lng);
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(brng));
+  const lng2 = lng1 + Math.atan2(Math.sin(brng) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2));
+  return [lat2 * 180 / Math.PI, lng2 * 180 / Math.PI];
+}
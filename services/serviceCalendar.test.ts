@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { ServiceCalendar, isServiceActive, getTripsInService, toServiceDate, startOfServiceDay } from './serviceCalendar';
+import { TripSchedule } from '../types';
+
+const calendar: ServiceCalendar = {
+    vardag: { w: '1111100', s: '20251001', e: '20251031', r: ['20251014'], a: ['20251018'] },
+    lordag: { w: '0000010', s: '20251001', e: '20251031' },
+    extra: { a: ['20251024'] }
+};
+
+// Lokal tid, trafikdygnen räknas i webbläsarens tidszon
+const day = (date: number, hours = 12, minutes = 0) => new Date(2025, 9, date, hours, minutes);
+
+describe('isServiceActive', () => {
+    it('följer veckodagarna inom giltighetstiden', () => {
+        expect(isServiceActive(calendar, 'vardag', day(13))).toBe(true);
+        expect(isServiceActive(calendar, 'vardag', day(19))).toBe(false);
+        expect(isServiceActive(calendar, 'lordag', day(18))).toBe(true);
+        expect(isServiceActive(calendar, 'vardag', new Date(2025, 10, 3))).toBe(false);
+    });
+
+    it('låter undantagen gå före veckodagarna', () => {
+        // Tisdag 14/10 är inställd, lördag 18/10 är en extra trafikdag
+        expect(isServiceActive(calendar, 'vardag', day(14))).toBe(false);
+        expect(isServiceActive(calendar, 'vardag', day(18))).toBe(true);
+    });
+
+    it('klarar service_id som bara har enstaka datum', () => {
+        expect(isServiceActive(calendar, 'extra', day(24))).toBe(true);
+        expect(isServiceActive(calendar, 'extra', day(23))).toBe(false);
+    });
+
+    it('räknar okända service_id som ej trafikerade', () => {
+        expect(isServiceActive(calendar, 'okänd', day(13))).toBe(false);
+    });
+});
+
+describe('trafikdygn', () => {
+    it('börjar vid midnatt och skrivs som YYYYMMDD', () => {
+        expect(startOfServiceDay(day(14, 0, 30).getTime())).toBe(day(14, 0).getTime());
+        expect(toServiceDate(day(5))).toBe('20251005');
+    });
+});
+
+describe('getTripsInService', () => {
+    const schedule: Record<string, TripSchedule> = {
+        morgon: { serviceId: 'lordag', start: 8 * 3600, end: 9 * 3600 },
+        kvall: { serviceId: 'vardag', start: 21 * 3600, end: 22 * 3600 },
+        natt: { serviceId: 'vardag', start: 23 * 3600 + 1800, end: 25 * 3600 },
+        okand: { serviceId: 'vardag', start: null, end: null }
+    };
+    const tripIds = Object.keys(schedule);
+
+    it('tar med gårdagens resor som går efter midnatt', () => {
+        // Natten mellan fredag 17/10 och lördag 18/10
+        const trips = getTripsInService(calendar, schedule, tripIds, day(18, 0, 30).getTime());
+        // 18/10 är också en extra vardag, så alla vardagsresor går
+        expect(trips).toEqual(new Set(['morgon', 'kvall', 'natt', 'okand']));
+    });
+
+    it('räknar inte gårdagens resor som slutade före midnatt', () => {
+        // Natten mellan lördag 11/10 och söndag 12/10
+        expect(getTripsInService(calendar, schedule, tripIds, day(12, 0, 30).getTime())).toEqual(new Set());
+        // Natten mellan måndag 13/10 och den inställda tisdagen 14/10
+        expect(getTripsInService(calendar, schedule, tripIds, day(14, 0, 30).getTime())).toEqual(new Set(['natt', 'okand']));
+    });
+
+    it('räknar alla resor utan kalender', () => {
+        expect(getTripsInService(null, schedule, tripIds, day(12).getTime()).size).toBe(4);
+    });
+});
@@ -0,0 +1,57 @@
+import { TripSchedule } from '../types';
+
+// Trafikkalender från GTFS calendar.txt och calendar_dates.txt (public/data/services.json).
+// Ett trafikdygn börjar vid midnatt och tidtabellstider kan gå över 24:00.
+
+export interface ServiceCalendarEntry {
+    w?: string; // veckodagar måndag–söndag, t.ex. "1111100"
+    s?: string; // första datum, YYYYMMDD
+    e?: string; // sista datum
+    a?: string[]; // extra trafikdagar
+    r?: string[]; // inställda trafikdagar
+}
+
+export type ServiceCalendar = Record<string, ServiceCalendarEntry>;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toServiceDate = (day: Date) => `${day.getFullYear()}${pad(day.getMonth() + 1)}${pad(day.getDate())}`;
+
+export function startOfServiceDay(time: number) {
+    const d = new Date(time);
+    d.setHours(0, 0, 0, 0);
+    return d.getTime();
+}
+
+export function isServiceActive(calendar: ServiceCalendar, serviceId: string, day: Date) {
+    const entry = calendar[serviceId];
+    if (!entry) return false;
+
+    const date = toServiceDate(day);
+    if (entry.r?.includes(date)) return false;
+    if (entry.a?.includes(date)) return true;
+    if (!entry.w || !entry.s || !entry.e || date < entry.s || date > entry.e) return false;
+
+    const weekday = (day.getDay() + 6) % 7; // måndag = 0
+    return entry.w[weekday] === '1';
+}
+
+// Resor som kan vara ute vid `time`: trafikdygnet som innehåller tiden, plus föregående
+// trafikdygns resor som går efter midnatt. Utan kalender, eller för resor utan service_id,
+// räknas alla resor.
+export function getTripsInService(calendar: ServiceCalendar | null, schedule: Record<string, TripSchedule>, tripIds: string[], time: number): Set<string> {
+    const runsOn = (tripId: string, day: number) => {
+        const serviceId = schedule[tripId]?.serviceId;
+        return !calendar || !serviceId || isServiceActive(calendar, serviceId, new Date(day));
+    };
+
+    const today = startOfServiceDay(time);
+    const yesterday = startOfServiceDay(today - 1);
+    const trips = new Set(tripIds.filter(tripId => runsOn(tripId, today)));
+    tripIds.forEach(tripId => {
+        if (trips.has(tripId) || !runsOn(tripId, yesterday)) return;
+        const end = schedule[tripId]?.end;
+        if (end === null || end === undefined || end >= 24 * 60 * 60) trips.add(tripId);
+    });
+    return trips;
+}
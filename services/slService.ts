@@ -1,59 +1,34 @@
 
-import { SLStop, SLLineRoute, SearchResult, SLVehicle, HistoryPoint } from '../types';
-// @ts-ignore
-import protobuf from 'protobufjs';
+import { SLStop, SLStation, SLLineRoute, SLLineVariant, SearchResult, SLVehicle, HistoryPoint, StopPassage, ReplayTrip, LineStats, ServiceAlert, StopDeparture, TransportMode, LiveSnapshot, VehicleDiff, StopTimePrediction, CancelledTrip, VehicleDayTrip, TripSchedule } from '../types';
+import { TrailExportFormat } from './exportFormats';
+import { LineManifestEntry, StaticDataManifest, parseManifest, versionedUrl } from './staticData';
+import { ServiceCalendar, isServiceActive, getTripsInService } from './serviceCalendar';
+import { ScheduledDepartureEntry, buildStopDepartures } from './departures';
+import { parseStop, isStation, getStationId, buildStation, groupLooseStops } from './stations';
+import { TripIndex, TripShard, TRIP_INDEX_FILE, getTripShardKey, getTripShardFile, decodeTripShard } from './tripIndex';
+import { decodeFeed, getFeedTimestampMs, pickTranslation } from './gtfsRealtime';
+import { TripMapEntry, RouteDirectionMap, TripUpdateInfo, VehicleFilter, getTransportMode, parseTripUpdates, buildVehicles, filterVehicles, applyVehicleDiff } from './vehicleBuilder';
 
 const DB_NAME = 'SL_Tracker_DB_v3';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
+const STATIC_VERSION_KEY = 'sl_static_version';
+// Data från äldre pipeline saknar version och laddas då om efter en vecka
 const STATIC_TS_KEY = 'sl_static_timestamp_v2';
 const CACHE_DURATION = 1000 * 60 * 60 * 24 * 7; 
 
 const RT_VEHICLE_URL = '/api/gtfs-rt';
 const RT_TRIP_UPDATES_URL = '/api/trip-updates';
+const RT_SERVICE_ALERTS_URL = '/api/service-alerts';
+const LIVE_VEHICLES_URL = '/api/vehicles';
+const LIVE_STREAM_URL = '/api/vehicles-stream';
+const LIVE_POLL_INTERVAL = 2500;
 
-export interface LineManifestEntry {
-    id: string;
-    line: string;
-    description: string;
-    from: string;
-    to: string;
-}
-
-interface TripMapEntry {
-  r: string; // route_id
-  h: string; // headsign
-}
-
-// Map: RouteID -> DirectionID -> Headsign
-interface RouteDirectionMap {
-    [routeId: string]: {
-        [directionId: string]: string;
-    }
-}
-
-interface TripUpdateInfo {
-    delay?: number;
-    directionId?: number;
-    routeId?: string;
-    lastStopId?: string;
-}
-
-// Helper för att beräkna avstånd i meter
-function getDistanceFromLatLonInM(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371e3; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c; 
-}
+// Hur gammal TripUpdates-datan får vara innan avgångstavlan hämtar ny
+const TRIP_UPDATES_MAX_AGE = 15000;
+// Antal stationer i sökresultatet
+const MAX_STOP_RESULTS = 10;
 
-function deg2rad(deg: number) {
-  return deg * (Math.PI / 180);
-}
+export type { LineManifestEntry } from './staticData';
 
 // Helper för att formatera sekunder till läsbar tid
 function formatDuration(seconds: number) {
@@ -63,7 +38,7 @@ function formatDuration(seconds: number) {
     return sec > 0 ? `${min}m ${sec}s` : `${min}m`;
 }
 
-function getDelayText(delay?: number) {
+export function getDelayText(delay?: number) {
     if (delay === undefined || delay === null) return "";
     const absDelay = Math.abs(delay);
     const min = Math.round(absDelay / 60);
@@ -74,13 +49,84 @@ function getDelayText(delay?: number) {
     return ` • ${min} min tidig`;
 }
 
+// Formatera en prognos som "Ankommer 14:32 (+3 min)"
+export function getPredictionText(prediction: StopTimePrediction): string | null {
+    if (prediction.scheduleRelationship === 'SKIPPED') return 'Stannar ej';
+
+    const time = prediction.arrivalTime ?? prediction.departureTime;
+    if (!time) return null;
+
+    const verb = time < Date.now() ? 'Ankom' : 'Ankommer';
+    const timeText = new Date(time).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+    const delay = prediction.arrivalDelay ?? prediction.delay;
+    if (delay === undefined || Math.abs(delay) < 60) return `${verb} ${timeText}`;
+
+    const min = Math.round(delay / 60);
+    return `${verb} ${timeText} (${min > 0 ? '+' : ''}${min} min)`;
+}
+
+// Vad den valda resan gjort eller ska göra vid en hållplats, t.ex. " • Passerade 14:32 (+2 min)".
+// Tom sträng när det inte finns någon passage eller prognos.
+export function getStopActivityText(stopId: string, passages?: StopPassage[], predictions?: StopTimePrediction[]): string {
+    // Om resan redan passerat hållplatsen, visa passagen som servern registrerat
+    const passage = passages?.find(p => p.stopId === stopId);
+    if (passage) {
+        const arrivalTime = new Date(passage.arrival).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+        const delayText = getDelayText(passage.delay ?? undefined);
+
+        // Om bussen stannade mer än 20 sekunder räknar vi det som ett stopp
+        if (passage.dwell > 20) return ` • Stannade ${formatDuration(passage.dwell)} (${arrivalTime})${delayText}`;
+        return ` • Passerade ${arrivalTime}${delayText}`;
+    }
+
+    // Om fordonet inte passerat hållplatsen än, visa prognosen från TripUpdates
+    const prediction = predictions?.find(p => p.stopId === stopId);
+    const predictionText = prediction ? getPredictionText(prediction) : null;
+    return predictionText ? ` • ${predictionText}` : '';
+}
+
+// TripDescriptor anger starttid som trafikdygn (YYYYMMDD) + HH:MM:SS, där timmen kan vara 24 eller mer
+function parseTripStart(startDate?: string, startTime?: string): number | undefined {
+    if (!startDate || !startTime || startDate.length !== 8) return undefined;
+    const [h, m, s] = startTime.split(':').map(Number);
+    if ([h, m].some(isNaN)) return undefined;
+    const day = new Date(Number(startDate.slice(0, 4)), Number(startDate.slice(4, 6)) - 1, Number(startDate.slice(6, 8)));
+    return day.getTime() + ((h * 60 + m) * 60 + (s || 0)) * 1000;
+}
+
+// Visa en annan variant av linjen. path och stops byts ut, resten av linjen är oförändrad.
+export function selectLineVariant(route: SLLineRoute, variantId: string): SLLineRoute {
+  const variant = route.variants.find(v => v.id === variantId);
+  if (!variant) return route;
+  return { ...route, variantId: variant.id, path: variant.path, stops: variant.stops };
+}
+
+// Varianten en resa följer. Resor som saknas i tidtabellen (extraturer) får riktningens vanligaste variant.
+export function findTripVariant(route: SLLineRoute, tripId: string, directionId?: number): SLLineVariant | null {
+  const exact = route.variants.find(v => v.trip_ids.includes(tripId));
+  if (exact) return exact;
+  if (directionId === undefined) return null;
+  const sameDirection = route.variants.filter(v => v.directionId === directionId);
+  return sameDirection.reduce<SLLineVariant | null>((best, v) => !best || v.trip_ids.length > best.trip_ids.length ? v : best, null);
+}
+
 class SLService {
   private db: IDBDatabase | null = null;
   private isInitialized = false;
-  private rtRoot: any = null;
-  private tripToRouteMap: Record<string, TripMapEntry> | null = null;
+  // Fylls på med de delar av resindexet som behövts hittills
+  private tripToRouteMap: Record<string, TripMapEntry> = {};
+  private tripIndexPromise: Promise<TripIndex | null> | null = null;
+  private loadedTripShards = new Set<string>();
   private routeDirections: RouteDirectionMap | null = null;
+  private serviceCalendar: ServiceCalendar | null = null;
   private stopsMap: Map<string, string> = new Map();
+  private routeModes: Map<string, TransportMode> = new Map();
+  private tripUpdates: Map<string, TripUpdateInfo> = new Map();
+  private tripUpdatesFetchedAt = 0;
+  private tripUpdatesRefresh: Promise<void> | null = null;
+  private departuresCache: Map<string, ScheduledDepartureEntry[]> = new Map();
+  private feedTimestamp: number | undefined;
+  private manifest: StaticDataManifest | null = null;
 
   public areKeysConfigured(): boolean {
     return true; 
@@ -97,9 +143,17 @@ class SLService {
         
         const stopStore = db.createObjectStore('stops', { keyPath: 'id' });
         stopStore.createIndex('name', 'name', { unique: false });
+        stopStore.createIndex('parentStation', 'parentStation', { unique: false });
         
         const routeStore = db.createObjectStore('routes', { keyPath: 'id' });
         routeStore.createIndex('line', 'line', { unique: false });
+
+        if (db.objectStoreNames.contains('trip_shards')) db.deleteObjectStore('trip_shards');
+        db.createObjectStore('trip_shards', { keyPath: 'key' });
+
+        // Butikerna är nya och tomma, så den sparade dataversionen gäller inte längre
+        localStorage.removeItem(STATIC_VERSION_KEY);
+        localStorage.removeItem(STATIC_TS_KEY);
       };
       request.onsuccess = () => {
         this.db = request.result;
@@ -112,20 +166,42 @@ class SLService {
   async initialize() {
     if (this.isInitialized) return;
     await this.getDB();
+    this.manifest = await this.fetchManifest();
+
+    // Ladda om från filer bara när dataversionen ändrats, annars räcker IndexedDB
+    const version = this.manifest?.version;
     const lastUpdate = localStorage.getItem(STATIC_TS_KEY);
-    const now = Date.now();
-    
-    // Antingen ladda från filer eller från DB om vi har cache
-    if (!lastUpdate || (now - parseInt(lastUpdate)) > CACHE_DURATION) {
-      await this.loadStaticDataFromFiles();
+    const isStale = version
+      ? localStorage.getItem(STATIC_VERSION_KEY) !== version
+      : !lastUpdate || (Date.now() - parseInt(lastUpdate)) > CACHE_DURATION;
+
+    if (isStale && this.manifest) {
+      await this.loadStaticDataFromFiles(this.manifest);
     } else {
-      await this.loadStopsFromDB();
+      await Promise.all([this.loadStopsFromDB(), this.loadRoutesFromDB()]);
     }
     
     await this.loadAuxiliaryMaps();
     this.isInitialized = true;
   }
 
+  // Manifestet är litet och hämtas vid varje start, men valideras mot servern i stället för att laddas om
+  private async fetchManifest(): Promise<StaticDataManifest | null> {
+    try {
+      const res = await fetch('/data/manifest.json', { cache: 'no-cache' });
+      if (!res.ok || !this.isJson(res)) return null;
+      return parseManifest(await res.json());
+    } catch (e) {
+      console.warn("Kunde inte hämta manifest:", e);
+      return null;
+    }
+  }
+
+  // URL till en fil under /data med innehållshash, eller dataversionen om filen saknar egen hash
+  private dataUrl(file: string, hash?: string) {
+    return versionedUrl(`/data/${file}`, hash ?? this.manifest?.files[file] ?? this.manifest?.version);
+  }
+
   private isJson(response: Response) {
     const contentType = response.headers.get('content-type');
     return contentType && contentType.includes('application/json');
@@ -133,13 +209,13 @@ class SLService {
 
   private async loadAuxiliaryMaps() {
     try {
-        const [tripRes, dirRes] = await Promise.all([
-            fetch(`/data/trip-to-route.json?v=${Date.now()}`), 
-            fetch(`/data/route-directions.json?v=${Date.now()}`)
+        const [dirRes, calendarRes] = await Promise.all([
+            fetch(this.dataUrl('route-directions.json')),
+            fetch(this.dataUrl('services.json'))
         ]);
 
-        if (tripRes.ok && this.isJson(tripRes)) {
-            this.tripToRouteMap = await tripRes.json();
+        if (calendarRes.ok && this.isJson(calendarRes)) {
+            this.serviceCalendar = await calendarRes.json();
         }
 
         if (dirRes.ok && this.isJson(dirRes)) {
@@ -150,6 +226,73 @@ class SLService {
     }
   }
 
+  private getTripIndex(): Promise<TripIndex | null> {
+    if (!this.tripIndexPromise) {
+      this.tripIndexPromise = (async () => {
+        try {
+          const res = await fetch(this.dataUrl(TRIP_INDEX_FILE));
+          if (res.ok && this.isJson(res)) return await res.json();
+        } catch (e) {
+          console.warn("Kunde inte hämta resindex:", e);
+        }
+        // Äldre data har hela uppslaget i en fil
+        try {
+          const legacyRes = await fetch(this.dataUrl('trip-to-route.json'));
+          if (legacyRes.ok && this.isJson(legacyRes)) this.tripToRouteMap = await legacyRes.json();
+        } catch (e) {
+          console.warn("Kunde inte ladda trip-to-route.json:", e);
+        }
+        return null;
+      })();
+    }
+    return this.tripIndexPromise;
+  }
+
+  // Se till att uppslaget innehåller de här resorna, genom att ladda deras delar av indexet
+  private async ensureTripEntries(tripIds: Iterable<string>) {
+    const index = await this.getTripIndex();
+    if (!index) return;
+
+    const available = new Set(index.shards);
+    const keys = new Set<string>();
+    for (const tripId of tripIds) {
+      const key = getTripShardKey(tripId, index.keyLength);
+      if (available.has(key) && !this.loadedTripShards.has(key)) keys.add(key);
+    }
+    await Promise.all(Array.from(keys).map(key => this.loadTripShard(index, key)));
+  }
+
+  // Delarna cachas i IndexedDB per dataversion. Utan version hämtas de alltid från servern.
+  private async loadTripShard(index: TripIndex, key: string) {
+    const version = this.manifest?.version;
+    const db = await this.getDB();
+
+    let shard: TripShard | null = null;
+    if (version) {
+      shard = await new Promise<TripShard | null>((resolve) => {
+        const req = db.transaction('trip_shards', 'readonly').objectStore('trip_shards').get(key);
+        req.onsuccess = () => resolve(req.result?.version === version ? req.result.shard : null);
+        req.onerror = () => resolve(null);
+      });
+    }
+
+    if (!shard) {
+      try {
+        const file = getTripShardFile(key);
+        const res = await fetch(this.dataUrl(file));
+        if (!res.ok || !this.isJson(res)) return;
+        shard = await res.json() as TripShard;
+        if (version) db.transaction('trip_shards', 'readwrite').objectStore('trip_shards').put({ key, version, shard });
+      } catch (e) {
+        console.warn(`Kunde inte ladda resindex ${key}:`, e);
+        return;
+      }
+    }
+
+    Object.assign(this.tripToRouteMap, decodeTripShard(index, shard));
+    this.loadedTripShards.add(key);
+  }
+
   private async loadStopsFromDB() {
       const db = await this.getDB();
       return new Promise<void>((resolve) => {
@@ -166,33 +309,45 @@ class SLService {
       });
   }
 
-  private async loadStaticDataFromFiles() {
-    try {
-      const [manifestRes, stopsRes] = await Promise.all([
-        fetch('/data/manifest.json'),
-        fetch('/data/stops.json')
-      ]);
+  private async loadRoutesFromDB() {
+      const db = await this.getDB();
+      return new Promise<void>((resolve) => {
+          const req = db.transaction('routes', 'readonly').objectStore('routes').getAll();
+          req.onsuccess = () => {
+              if (req.result) {
+                  req.result.forEach((r: LineManifestEntry) => this.routeModes.set(r.id, getTransportMode(r.route_type, r.line)));
+              }
+              resolve();
+          };
+          req.onerror = () => resolve();
+      });
+  }
 
-      if (!manifestRes.ok || !stopsRes.ok || !this.isJson(manifestRes) || !this.isJson(stopsRes)) {
+  private async loadStaticDataFromFiles(manifest: StaticDataManifest) {
+    try {
+      const stopsRes = await fetch(this.dataUrl('stops.json'));
+      if (!stopsRes.ok || !this.isJson(stopsRes)) {
          throw new Error(`Static files missing or invalid format.`);
       }
 
-      const manifest = await manifestRes.json();
-      const stops: SLStop[] = await stopsRes.json();
+      const routes = manifest.routes;
+      const stops: SLStop[] = (await stopsRes.json()).map(parseStop);
 
       // Uppdatera stopsMap i minnet
       stops.forEach(s => this.stopsMap.set(s.id, s.name));
+      routes.forEach((r: LineManifestEntry) => this.routeModes.set(r.id, getTransportMode(r.route_type, r.line)));
 
       const db = await this.getDB();
-      const tx = db.transaction(['stops', 'routes'], 'readwrite');
+      const tx = db.transaction(['stops', 'routes', 'trip_shards'], 'readwrite');
       const stopStore = tx.objectStore('stops');
       const routeStore = tx.objectStore('routes');
 
       stopStore.clear();
       routeStore.clear();
+      tx.objectStore('trip_shards').clear();
 
       stops.forEach((stop: SLStop) => stopStore.put(stop));
-      manifest.forEach((route: LineManifestEntry) => routeStore.put(route));
+      routes.forEach((route: LineManifestEntry) => routeStore.put(route));
 
       await new Promise<void>((resolve, reject) => {
         tx.oncomplete = () => resolve();
@@ -200,12 +355,16 @@ class SLService {
       });
       
       localStorage.setItem(STATIC_TS_KEY, Date.now().toString());
+      if (manifest.version) localStorage.setItem(STATIC_VERSION_KEY, manifest.version);
+      else localStorage.removeItem(STATIC_VERSION_KEY);
     } catch (e) {
       console.warn("Varning: Kunde inte ladda statisk data.", e);
     }
   }
   
-  async search(query: string, activeRoute?: SLLineRoute | null, vehicleHistory?: HistoryPoint[]): Promise<SearchResult[]> {
+  // Hållplatsträffarna på den valda linjen bär bara sin statiska text. Passager och prognoser
+  // läggs till när listan ritas (getStopActivityText), så att sökningen inte görs om vid varje uppdatering.
+  async search(query: string, activeRoute?: SLLineRoute | null): Promise<SearchResult[]> {
     await this.initialize();
     if (query.trim().length < 1) return [];
 
@@ -215,43 +374,12 @@ class SLService {
     if (activeRoute && activeRoute.stops) {
         const stopResults = activeRoute.stops
             .filter(stop => stop.name.toLowerCase().includes(q))
-            .map(stop => {
-                let infoSubtitle = "";
-                
-                // Om vi har historik, analysera passagen
-                if (vehicleHistory && vehicleHistory.length > 0) {
-                    // Hitta alla punkter inom en viss radie (50m)
-                    const pointsInZone = vehicleHistory.filter(point => 
-                        getDistanceFromLatLonInM(stop.lat, stop.lng, point.lat, point.lng) < 50
-                    ).sort((a, b) => a.ts - b.ts);
-
-                    if (pointsInZone.length > 0) {
-                        const arrivalPoint = pointsInZone[0];
-                        const departurePoint = pointsInZone[pointsInZone.length - 1];
-                        
-                        const arrivalTime = new Date(arrivalPoint.ts).toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
-                        const dwellTimeMs = departurePoint.ts - arrivalPoint.ts;
-                        const dwellTimeSec = dwellTimeMs / 1000;
-                        
-                        // Hämta försening från punkten (om den sparats)
-                        const delayText = getDelayText(arrivalPoint.delay);
-
-                        // Om bussen stannade mer än 20 sekunder räknar vi det som ett stopp
-                        if (dwellTimeSec > 20) {
-                            infoSubtitle = ` • Stannade ${formatDuration(dwellTimeSec)} (${arrivalTime})${delayText}`;
-                        } else {
-                            infoSubtitle = ` • Passerade ${arrivalTime}${delayText}`;
-                        }
-                    }
-                }
-
-                return {
-                    type: 'stop' as const,
-                    id: stop.id,
-                    title: stop.name,
-                    subtitle: `På linje ${activeRoute.line}${infoSubtitle}`
-                };
-            });
+            .map(stop => ({
+                type: 'stop' as const,
+                id: stop.id,
+                title: stop.name,
+                subtitle: `På linje ${activeRoute.line}`
+            }));
         
         const lineResults = await this.searchLines(q, db);
         return [...lineResults, ...stopResults].slice(0, 15);
@@ -274,7 +402,7 @@ class SLService {
             if (cursor) {
                 const route = cursor.value as LineManifestEntry;
                 if (route.line.toLowerCase().startsWith(query)) {
-                    results.push({ type: 'line', id: route.id, title: `Linje ${route.line}`, subtitle: `${route.from} - ${route.to}` });
+                    results.push({ type: 'line', id: route.id, title: `Linje ${route.line}`, subtitle: `${route.from} - ${route.to}`, mode: getTransportMode(route.route_type, route.line) });
                 }
                  if (results.length < 10) cursor.continue(); else resolve(results);
             } else {
@@ -284,52 +412,198 @@ class SLService {
     });
   }
 
+  // En träff per station, med lägena som kan fällas ut i sökrutan
   private async searchStops(query: string, db: IDBDatabase): Promise<SearchResult[]> {
-    return new Promise<SearchResult[]>(resolve => {
-        const results: SearchResult[] = [];
+    const matches = await new Promise<SLStop[]>(resolve => {
+        const found: SLStop[] = [];
+        const keys = new Set<string>();
         const tx = db.transaction('stops', 'readonly');
         const store = tx.objectStore('stops');
         store.index('name').openCursor().onsuccess = (event) => {
             const cursor = (event.target as IDBRequest<IDBCursorWithValue>).result;
-            if (cursor) {
-                const stop = cursor.value as SLStop;
-                if (stop.name.toLowerCase().includes(query)) {
-                    results.push({ type: 'stop', id: stop.id, title: stop.name, subtitle: `Hållplats` });
-                }
-                if (results.length < 10) cursor.continue(); else resolve(results);
-            } else {
-                resolve(results);
+            if (!cursor) return resolve(found);
+            const stop = cursor.value as SLStop;
+            if (stop.name.toLowerCase().includes(query)) {
+                // Indexet är sorterat på namn, så lägen med samma namn kommer efter varandra
+                const key = getStationId(stop) || stop.name;
+                if (!keys.has(key) && keys.size >= MAX_STOP_RESULTS) return resolve(found);
+                keys.add(key);
+                found.push(stop);
             }
+            cursor.continue();
         };
     });
+
+    const stationIds = Array.from(new Set(matches.map(getStationId).filter((id): id is string => !!id)));
+    const withStation = new Map<string, SLStation>();
+    await Promise.all(stationIds.map(async id => {
+        const station = await this.loadStation(id, db);
+        if (station) withStation.set(id, station);
+    }));
+    const looseStations = new Map<SLStop, SLStation>();
+    groupLooseStops(matches.filter(s => !getStationId(s))).forEach(group => {
+        const station = buildStation(group);
+        group.forEach(stop => looseStations.set(stop, station));
+    });
+
+    // Behåll namnordningen från indexet
+    const stations: SLStation[] = [];
+    const added = new Set<string>();
+    for (const stop of matches) {
+        const stationId = getStationId(stop);
+        const station = stationId ? withStation.get(stationId) : looseStations.get(stop);
+        if (station && !added.has(station.id)) {
+            added.add(station.id);
+            stations.push(station);
+        }
+    }
+    return stations.map(station => this.toStationResult(station));
+  }
+
+  private toStationResult(station: SLStation): SearchResult {
+    const lineNames = this.getLineNames(station.lines);
+    const linesText = lineNames.length > 0 ? ` • Linje ${lineNames.slice(0, 8).join(', ')}${lineNames.length > 8 ? ' …' : ''}` : '';
+    if (station.platforms.length < 2) {
+        return { type: 'stop', id: station.platforms[0]?.id ?? station.id, title: station.name, subtitle: `Hållplats${linesText}` };
+    }
+    return {
+        type: 'stop',
+        id: station.id,
+        title: station.name,
+        subtitle: `${station.platforms.length} lägen${linesText}`,
+        platforms: station.platforms.map(p => {
+            const platformLines = this.getLineNames(p.lines);
+            return {
+                type: 'stop' as const,
+                id: p.id,
+                title: p.name,
+                subtitle: `${p.platformCode ? `Läge ${p.platformCode}` : 'Läge'}${platformLines.length > 0 ? ` • Linje ${platformLines.join(', ')}` : ''}`
+            };
+        })
+    };
+  }
+
+  // Linjenummer för en lista med route_id, sorterade och utan dubbletter
+  private getLineNames(routeIds: string[]): string[] {
+    const byId = new Map((this.manifest?.routes || []).map(r => [r.id, r.line]));
+    const names = new Set(routeIds.map(id => byId.get(id)).filter((line): line is string => !!line));
+    return Array.from(names).sort((a, b) => a.localeCompare(b, 'sv', { numeric: true }));
+  }
+
+  // Stationen med alla lägen som pekar på den via parent_station
+  private async loadStation(stationId: string, db: IDBDatabase): Promise<SLStation | null> {
+    const store = db.transaction('stops', 'readonly').objectStore('stops');
+    const [station, platforms] = await Promise.all([
+        new Promise<SLStop | undefined>(resolve => {
+            const req = store.get(stationId);
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => resolve(undefined);
+        }),
+        new Promise<SLStop[]>(resolve => {
+            const req = store.index('parentStation').getAll(stationId);
+            req.onsuccess = () => resolve(req.result || []);
+            req.onerror = () => resolve([]);
+        })
+    ]);
+    if (platforms.length === 0) return station ? buildStation([station]) : null;
+    return buildStation(platforms, station);
   }
 
   async getLineRoute(routeId: string): Promise<SLLineRoute | null> {
     try {
-        const response = await fetch(`/data/lines/${routeId}.json`);
+        if (!this.isInitialized) await this.initialize();
+        const hash = this.manifest?.routes.find(r => r.id === routeId)?.hash;
+        const response = await fetch(this.dataUrl(`lines/${routeId}.json`, hash));
         if (!response.ok || !this.isJson(response)) throw new Error('Line data not found');
         const lineData = await response.json();
         
-        const stops: SLStop[] = lineData.stops.map((s: any) => ({
+        const toStops = (raw: any[]): SLStop[] => raw.map((s: any) => ({
             id: s.id,
             name: s.name,
             lat: s.lat,
             lng: s.lng,
             lines: []
         }));
-        
+
+        // Äldre linjefiler saknar varianter, då blir huvudvarianten den enda
+        const variants: SLLineVariant[] = Array.isArray(lineData.variants) && lineData.variants.length > 0
+            ? lineData.variants.map((v: any) => ({
+                id: v.id,
+                directionId: v.direction_id ?? null,
+                headsign: v.headsign || '',
+                trip_ids: v.trip_ids || [],
+                path: v.path,
+                stops: toStops(v.stops)
+            }))
+            : [{ id: 'main', directionId: null, headsign: '', trip_ids: lineData.trip_ids, path: lineData.path, stops: toStops(lineData.stops) }];
+
+        // Huvudvarianten (flest resor) visas först
+        const main = variants.reduce((best, v) => v.trip_ids.length > best.trip_ids.length ? v : best);
+
+        // Resorna ligger per variant, med trip_schedule i samma ordning som variantens trip_ids:
+        // [index i service_ids, start, slut]. Äldre filer har båda listorna på toppnivå.
+        const rawVariants: any[] = Array.isArray(lineData.variants) ? lineData.variants : [];
+        const tripLists: { tripIds: string[]; schedule?: any[] }[] = rawVariants.some(v => Array.isArray(v.trip_schedule))
+            ? rawVariants.map(v => ({ tripIds: v.trip_ids || [], schedule: v.trip_schedule }))
+            : [{ tripIds: lineData.trip_ids || variants.flatMap(v => v.trip_ids), schedule: lineData.trip_schedule }];
+        const tripIds = tripLists.flatMap(list => list.tripIds);
+
+        let schedule: Record<string, TripSchedule> | undefined;
+        if (Array.isArray(lineData.service_ids) && tripLists.every(list => Array.isArray(list.schedule))) {
+            schedule = {};
+            tripLists.forEach(({ tripIds, schedule: rows }) => {
+                tripIds.forEach((tripId, i) => {
+                    const [serviceIdx, start, end] = rows![i] || [];
+                    const serviceId = lineData.service_ids[serviceIdx];
+                    if (serviceId) schedule![tripId] = { serviceId, start: start ?? null, end: end ?? null };
+                });
+            });
+        }
+
         return {
             id: lineData.id,
             line: lineData.line,
-            trip_ids: lineData.trip_ids,
-            path: lineData.path,
-            stops: stops
+            mode: getTransportMode(lineData.route_type, lineData.line),
+            trip_ids: tripIds,
+            schedule,
+            variants,
+            variantId: main.id,
+            path: main.path,
+            stops: main.stops
         };
     } catch (e) {
         return null;
     }
   }
 
+  // Om en resa med det här service_id går ett visst trafikdygn. Utan kalender räknas alla resor.
+  private runsOn(serviceId: string | undefined, day: Date) {
+    if (!this.serviceCalendar || !serviceId) return true;
+    return isServiceActive(this.serviceCalendar, serviceId, day);
+  }
+
+  // Linjens resor som går enligt tidtabellen under trafikdygnet som innehåller `date`
+  getLineTripsOnDate(route: SLLineRoute, date: Date = new Date()): string[] {
+    if (!route.schedule) return route.trip_ids;
+    return route.trip_ids.filter(tripId => this.runsOn(route.schedule![tripId]?.serviceId, date));
+  }
+
+  // Linjens resor som kan vara ute just nu: dagens trafikdygn, plus gårdagens resor som går efter midnatt
+  getLineServiceTrips(route: SLLineRoute, time: number = Date.now()): Set<string> {
+    if (!route.schedule) return new Set(route.trip_ids);
+    return getTripsInService(this.serviceCalendar, route.schedule, route.trip_ids, time);
+  }
+
+  // Stationen för ett sökresultat. Ett stations-id ger alla lägen, enskilda lägen ger bara dem.
+  async getStation(stopIds: string[]): Promise<SLStation | null> {
+    await this.initialize();
+    const db = await this.getDB();
+    const stops = (await Promise.all(Array.from(new Set(stopIds)).map(id => this.getStopInfo(id)))).filter((s): s is SLStop => !!s);
+    const station = stops.find(isStation);
+    if (station) return this.loadStation(station.id, db);
+    return stops.length > 0 ? buildStation(stops) : null;
+  }
+
   async getStopInfo(stopId: string): Promise<SLStop | null> {
     await this.initialize();
     const db = await this.getDB();
@@ -363,6 +637,107 @@ class SLService {
       }
   }
 
+  // Alla resor ett fordon kört sedan `from`, med linje och destination
+  async getVehicleDay(vehicleId: string, from: number): Promise<VehicleDayTrip[]> {
+      try {
+          const res = await fetch(`/api/vehicle-history?vehicleId=${encodeURIComponent(vehicleId)}&from=${from}`);
+          if (!res.ok) return [];
+          const data = await res.json();
+          return data.trips || [];
+      } catch (e) {
+          console.error("Failed to fetch vehicle history", e);
+          return [];
+      }
+  }
+
+  // Hållplatspassager för en resa i körordning
+  async getTripPassages(tripId: string): Promise<StopPassage[]> {
+      try {
+          const res = await fetch(`/api/passages?tripId=${encodeURIComponent(tripId)}`);
+          if (!res.ok) return [];
+          const data = await res.json();
+          return data.passages || [];
+      } catch (e) {
+          console.error("Failed to fetch passages", e);
+          return [];
+      }
+  }
+
+  // Alla sparade spår för en linje inom ett tidsfönster, för uppspelning
+  async getLineReplay(routeId: string, from: number, to: number): Promise<ReplayTrip[]> {
+      const res = await fetch(`/api/replay?routeId=${encodeURIComponent(routeId)}&from=${from}&to=${to}`);
+      if (!res.ok) {
+          const body = this.isJson(res) ? await res.json() : null;
+          throw new Error(body?.error || `Uppspelning misslyckades: ${res.status}`);
+      }
+      const data = await res.json();
+      return data.trips || [];
+  }
+
+  // Punktlighet per tidsintervall för en linje, beräknad ur sparade spår
+  async getLineStats(routeId: string, from: number, to: number, bucketMinutes: number): Promise<LineStats | null> {
+      try {
+          const res = await fetch(`/api/stats/line?routeId=${encodeURIComponent(routeId)}&from=${from}&to=${to}&bucket=${bucketMinutes}`);
+          if (!res.ok) return null;
+          return await res.json();
+      } catch (e) {
+          console.error("Failed to fetch line stats", e);
+          return null;
+      }
+  }
+
+  // Hämta aktuella störningar (GTFS-RT Service Alerts)
+  async getServiceAlerts(): Promise<ServiceAlert[]> {
+      try {
+          const res = await fetch(RT_SERVICE_ALERTS_URL);
+          if (!res.ok) throw new Error(`API Error: ${res.status}`);
+          const feed = decodeFeed(await res.arrayBuffer());
+
+          const now = Date.now();
+          const alerts: ServiceAlert[] = [];
+
+          for (const e of feed.entity) {
+              const a = e.alert;
+              if (!a || e.isDeleted) continue;
+
+              const activePeriods = (a.activePeriod || []).map(p => ({
+                  start: p.start ? p.start * 1000 : undefined,
+                  end: p.end ? p.end * 1000 : undefined
+              }));
+
+              // Hoppa över störningar som inte är aktiva just nu
+              const isActive = activePeriods.length === 0 || activePeriods.some(p =>
+                  (p.start === undefined || p.start <= now) && (p.end === undefined || p.end >= now)
+              );
+              if (!isActive) continue;
+
+              const routeIds = new Set<string>();
+              const stopIds = new Set<string>();
+              for (const sel of (a.informedEntity || [])) {
+                  const routeId = sel.routeId || sel.trip?.routeId;
+                  if (routeId) routeIds.add(routeId);
+                  if (sel.stopId) stopIds.add(sel.stopId);
+              }
+
+              alerts.push({
+                  id: e.id,
+                  header: pickTranslation(a.headerText),
+                  description: pickTranslation(a.descriptionText),
+                  cause: a.cause || "UNKNOWN_CAUSE",
+                  effect: a.effect || "UNKNOWN_EFFECT",
+                  url: pickTranslation(a.url) || undefined,
+                  routeIds: Array.from(routeIds),
+                  stopIds: Array.from(stopIds),
+                  activePeriods
+              });
+          }
+          return alerts;
+      } catch (e) {
+          console.error("Fel vid hämtning av störningsinformation:", e);
+          return [];
+      }
+  }
+
   // Sök efter en specifik vagn globalt
   async findVehicle(vehicleNumber: string): Promise<{vehicle: SLVehicle, routeId: string} | null> {
       try {
@@ -373,215 +748,231 @@ class SLService {
       }
       
       try {
-          const posRes = await fetch(RT_VEHICLE_URL);
-          if (!posRes.ok) throw new Error(`API Error: ${posRes.status}`);
-          const posBuffer = await posRes.arrayBuffer();
-          
-          const root = await this.getRTRoot();
-          const FeedMessage = root.lookupType("transit_realtime.FeedMessage");
-          const posMessage = FeedMessage.decode(new Uint8Array(posBuffer));
-          const posObject = FeedMessage.toObject(posMessage, { enums: String, longs: String });
-          const posEntities = posObject.entity || [];
-          
-          const target = vehicleNumber.trim();
-
-          for (const e of posEntities) {
-              const v = e.vehicle;
-              if (v && v.vehicle) {
-                  const label = v.vehicle.label ? String(v.vehicle.label).trim() : '';
-                  const vid = v.vehicle.id ? String(v.vehicle.id).trim() : '';
-                  
-                  if (label === target || (vid && vid.endsWith(target))) {
-                       const tripId = v.trip?.tripId || v.trip?.trip_id;
-                       let routeId = v.trip?.routeId || v.trip?.route_id;
-
-                       if (tripId && this.tripToRouteMap && this.tripToRouteMap[tripId]) {
-                           routeId = this.tripToRouteMap[tripId].r;
-                       }
-
-                       if (routeId) {
-                           return {
-                               vehicle: {
-                                   id: v.vehicle.id || e.id,
-                                   line: routeId,
-                                   tripId: tripId || "",
-                                   operator: "SL",
-                                   vehicleNumber: v.vehicle.label || vid.slice(-4),
-                                   lat: v.position.latitude,
-                                   lng: v.position.longitude,
-                                   bearing: v.position.bearing || 0,
-                                   speed: (v.position.speed || 0) * 3.6,
-                                   destination: "", 
-                                   type: "Buss"
-                               },
-                               routeId: routeId
-                           };
-                       }
-                  }
-              }
-          }
-          return null;
+          const snapshot = await this.getLiveSnapshot({ vehicle: vehicleNumber, limit: 1 });
+          const vehicle = snapshot.vehicles[0];
+          return vehicle ? { vehicle, routeId: vehicle.line } : null;
       } catch (e) {
           console.error("Fel vid fordonssökning (detaljer):", e);
           return null;
       }
   }
 
-  async getLiveVehicles(route?: SLLineRoute | null): Promise<SLVehicle[]> {
+  // Hämtar färdigavkodade och filtrerade fordon från servern.
+  // Om endpointen inte svarar avkodar vi flödena direkt i klienten istället.
+  async getLiveSnapshot(filter: VehicleFilter = {}): Promise<LiveSnapshot> {
     if (!this.isInitialized) await this.initialize();
 
     try {
-        const [posRes, updatesRes] = await Promise.all([
-            fetch(RT_VEHICLE_URL),
-            fetch(RT_TRIP_UPDATES_URL).catch(() => null)
-        ]);
+        const res = await fetch(`${LIVE_VEHICLES_URL}?${this.buildVehicleQuery(filter)}`);
+        if (!res.ok || !this.isJson(res)) throw new Error(`API Error: ${res.status}`);
+        return await res.json();
+    } catch (e) {
+        console.warn("Fordons-endpointen svarade inte, avkodar i klienten:", e);
+        const allVehicles = await this.fetchVehiclesFromFeeds();
+        return {
+            vehicles: filterVehicles(allVehicles, filter),
+            total: allVehicles.length,
+            timestamp: Date.now(),
+            feedTimestamp: this.feedTimestamp
+        };
+    }
+  }
 
-        if (!posRes.ok) throw new Error(`API Error: ${posRes.status}`);
-        
-        const posBuffer = await posRes.arrayBuffer();
-        if (posBuffer.byteLength < 20) return [];
+  // Nedladdningslänkar (api/export) för ett sparat spår respektive aktuella fordonslägen
+  getTrailExportUrl(tripId: string, format: TrailExportFormat) {
+    return `/api/export/trail?tripId=${encodeURIComponent(tripId)}&format=${format}`;
+  }
 
-        const root = await this.getRTRoot();
-        const FeedMessage = root.lookupType("transit_realtime.FeedMessage");
-        
-        const posMessage = FeedMessage.decode(new Uint8Array(posBuffer));
-        const posObject = FeedMessage.toObject(posMessage, { enums: String, longs: String });
-        const posEntities = posObject.entity || [];
-
-        const tripInfoMap: Map<string, TripUpdateInfo> = new Map();
-
-        if (updatesRes && updatesRes.ok) {
-            const updatesBuffer = await updatesRes.arrayBuffer();
-            const updatesMessage = FeedMessage.decode(new Uint8Array(updatesBuffer));
-            const updatesObject = FeedMessage.toObject(updatesMessage, { enums: String, longs: String });
-            const updateEntities = updatesObject.entity || [];
-
-            for (const e of updateEntities) {
-                if (e.tripUpdate && e.tripUpdate.trip) {
-                    const tripId = e.tripUpdate.trip.tripId || e.tripUpdate.trip.trip_id;
-                    const routeId = e.tripUpdate.trip.routeId || e.tripUpdate.trip.route_id;
-                    const directionId = e.tripUpdate.trip.directionId ?? e.tripUpdate.trip.direction_id;
-
-                    if (tripId) {
-                        let delay = undefined;
-                        let lastStopId = undefined;
-
-                        if (e.tripUpdate.stopTimeUpdate && e.tripUpdate.stopTimeUpdate.length > 0) {
-                            const updates = e.tripUpdate.stopTimeUpdate;
-                            const firstUpdate = updates[0];
-                            if (firstUpdate) {
-                                if (firstUpdate.arrival && firstUpdate.arrival.delay !== undefined) {
-                                    delay = parseInt(firstUpdate.arrival.delay);
-                                } else if (firstUpdate.departure && firstUpdate.departure.delay !== undefined) {
-                                    delay = parseInt(firstUpdate.departure.delay);
-                                }
-                            }
-                            
-                            const lastUpdate = updates[updates.length - 1];
-                            if (lastUpdate) {
-                                lastStopId = lastUpdate.stopId || lastUpdate.stop_id;
-                            }
-                        }
-                        tripInfoMap.set(tripId, { delay, directionId, routeId, lastStopId });
-                    }
-                }
-            }
-        }
-        
-        const allVehicles: SLVehicle[] = [];
-        for (const e of posEntities) {
-            const v = e.vehicle;
-            if (!v || !v.position || !v.trip) continue;
-
-            const tripId = v.trip.tripId || v.trip.trip_id;
-            if (!tripId) continue;
-            
-            let routeId = v.trip.routeId || v.trip.route_id;
-            let directionId = v.trip.directionId ?? v.trip.direction_id;
-            
-            const info = tripInfoMap.get(tripId);
-            if (info) {
-                if (directionId === undefined || directionId === null) directionId = info.directionId;
-                if (!routeId) routeId = info.routeId;
-            }
+  getVehiclesExportUrl(filter: VehicleFilter) {
+    return `/api/export/vehicles?${this.buildVehicleQuery(filter)}`;
+  }
 
-            let headsign = "Okänd";
+  private buildVehicleQuery(filter: VehicleFilter) {
+    const params = new URLSearchParams();
+    if (filter.bbox) params.set('bbox', filter.bbox.map(n => n.toFixed(5)).join(','));
+    if (filter.routeId) params.set('routeId', filter.routeId);
+    if (filter.tripId) params.set('tripId', filter.tripId);
+    if (filter.vehicle) params.set('vehicle', filter.vehicle);
+    if (filter.limit !== undefined) params.set('limit', String(filter.limit));
+    return params.toString();
+  }
 
-            if (this.tripToRouteMap && this.tripToRouteMap[tripId]) {
-                const mapEntry = this.tripToRouteMap[tripId];
-                if (!routeId) routeId = mapEntry.r; 
-                if (mapEntry.h) headsign = mapEntry.h;
+  // Prenumerera på livepositioner via Server-Sent Events (ögonblicksbild + diffar).
+  // Faller tillbaka på polling om strömmen inte är tillgänglig. Returnerar en avregistreringsfunktion.
+  subscribeVehicles(filter: VehicleFilter, onUpdate: (snapshot: LiveSnapshot) => void, onError?: (error: unknown) => void): () => void {
+    let stopped = false;
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let state: Map<string, SLVehicle> = new Map();
+    let receivedAny = false;
+
+    const startPolling = () => {
+        if (stopped || pollTimer) return;
+        const poll = async () => {
+            try {
+                const snapshot = await this.getLiveSnapshot(filter);
+                if (!stopped) onUpdate(snapshot);
+            } catch (e) {
+                onError?.(e);
             }
+        };
+        poll();
+        pollTimer = setInterval(poll, LIVE_POLL_INTERVAL);
+    };
 
-            if ((!headsign || headsign === "Okänd") && routeId && directionId !== undefined && directionId !== null && this.routeDirections) {
-                const dirStr = String(directionId);
-                const fallbackHeadsign = this.routeDirections[routeId]?.[dirStr];
-                if (fallbackHeadsign) {
-                    headsign = fallbackHeadsign;
-                }
-            }
+    if (typeof EventSource === 'undefined') {
+        startPolling();
+    } else {
+        source = new EventSource(`${LIVE_STREAM_URL}?${this.buildVehicleQuery(filter)}`);
+
+        source.addEventListener('snapshot', (event) => {
+            const snapshot: LiveSnapshot = JSON.parse((event as MessageEvent).data);
+            receivedAny = true;
+            state = new Map(snapshot.vehicles.map(v => [v.id, v]));
+            onUpdate(snapshot);
+        });
+
+        source.addEventListener('diff', (event) => {
+            const diff: VehicleDiff = JSON.parse((event as MessageEvent).data);
+            receivedAny = true;
+            state = applyVehicleDiff(state, diff);
+            onUpdate({ vehicles: Array.from(state.values()), total: diff.total, timestamp: diff.timestamp, feedTimestamp: diff.feedTimestamp });
+        });
+
+        const fallBack = () => {
+            source?.close();
+            source = null;
+            startPolling();
+        };
 
-            if ((!headsign || headsign === "Okänd") && info?.lastStopId) {
-                const stopName = this.stopsMap.get(info.lastStopId);
-                if (stopName) {
-                    headsign = stopName;
-                }
-            }
+        source.addEventListener('stream-error', fallBack);
+        source.onerror = () => {
+            // EventSource återansluter själv efter att strömmen stängts av servern.
+            // Om vi aldrig fått något, eller anslutningen är stängd för gott, kör vi polling istället.
+            if (!receivedAny || source?.readyState === EventSource.CLOSED) fallBack();
+        };
+    }
 
-            if (!routeId) continue;
-
-            allVehicles.push({
-                id: v.vehicle?.id || e.id,
-                line: routeId,
-                tripId: tripId,
-                operator: "SL / Entreprenör",
-                vehicleNumber: v.vehicle?.label || "N/A",
-                lat: v.position.latitude,
-                lng: v.position.longitude,
-                bearing: v.position.bearing || 0,
-                speed: (v.position.speed || 0) * 3.6,
-                destination: headsign,
-                type: "Buss",
-                delay: info?.delay
-            });
-        }
+    return () => {
+        stopped = true;
+        source?.close();
+        if (pollTimer) clearInterval(pollTimer);
+    };
+  }
 
-        if (!route) {
-            return allVehicles;
-        }
+  private async fetchVehiclesFromFeeds(): Promise<SLVehicle[]> {
+    const [posRes, updatesRes] = await Promise.all([
+        fetch(RT_VEHICLE_URL),
+        fetch(RT_TRIP_UPDATES_URL).catch(() => null)
+    ]);
 
-        const tripIdSet = new Set(route.trip_ids);
-        let filteredVehicles = allVehicles.filter(v => tripIdSet.has(v.tripId));
-        
-        if (filteredVehicles.length === 0 && allVehicles.length > 0) {
-          filteredVehicles = allVehicles.filter(v => v.line === route.id);
-        }
+    if (!posRes.ok) throw new Error(`API Error: ${posRes.status}`);
+    
+    const posBuffer = await posRes.arrayBuffer();
+    if (posBuffer.byteLength < 20) return [];
 
-        return filteredVehicles;
-    } catch(e) {
-        console.error("Fel vid hämtning av realtidsdata:", e);
+    const posFeed = decodeFeed(posBuffer);
+    this.feedTimestamp = getFeedTimestampMs(posFeed);
+
+    const tripInfoMap = (updatesRes && updatesRes.ok)
+        ? this.decodeTripUpdates(await updatesRes.arrayBuffer())
+        : this.tripUpdates;
+
+    await this.ensureTripEntries(posFeed.entity.map(e => e.vehicle?.trip?.tripId).filter((id): id is string => !!id));
+
+    return buildVehicles(posFeed.entity, tripInfoMap, {
+        tripToRoute: this.tripToRouteMap,
+        routeDirections: this.routeDirections,
+        stopNames: this.stopsMap,
+        routeModes: this.routeModes
+    });
+  }
+  
+  // Alla prognoser (StopTimeUpdates) för en resa
+  async getTripPredictions(tripId: string): Promise<StopTimePrediction[]> {
+    await this.refreshTripUpdatesIfStale();
+    return this.tripUpdates.get(tripId)?.stopTimes || [];
+  }
+
+  // Inställda resor på en linje enligt TripUpdates
+  async getCancelledTrips(route: SLLineRoute): Promise<CancelledTrip[]> {
+    await this.refreshTripUpdatesIfStale();
+
+    const tripIdSet = new Set(route.trip_ids);
+    const cancelledIds = Array.from(this.tripUpdates.entries())
+        .filter(([tripId, info]) => info.scheduleRelationship === 'CANCELED' && (info.routeId === route.id || tripIdSet.has(tripId)))
+        .map(([tripId]) => tripId);
+    await this.ensureTripEntries(cancelledIds);
+
+    const cancelled: CancelledTrip[] = cancelledIds.map(tripId => {
+        const info = this.tripUpdates.get(tripId)!;
+        return {
+            tripId,
+            routeId: route.id,
+            headsign: this.tripToRouteMap[tripId]?.h || this.routeDirections?.[route.id]?.[String(info.directionId)] || "Okänd",
+            startTime: parseTripStart(info.startDate, info.startTime)
+        };
+    });
+
+    return cancelled.sort((a, b) => (a.startTime ?? Infinity) - (b.startTime ?? Infinity));
+  }
+
+  // Avkodar TripUpdates-flödet och sparar resultatet så att t.ex. avgångstavlan kan återanvända det
+  private decodeTripUpdates(buffer: ArrayBuffer): Map<string, TripUpdateInfo> {
+    const tripInfoMap = parseTripUpdates(decodeFeed(buffer).entity);
+
+    this.tripUpdates = tripInfoMap;
+    this.tripUpdatesFetchedAt = Date.now();
+    return tripInfoMap;
+  }
+
+  // Avgångstavlan för en station frågar för alla lägen samtidigt, så bara en hämtning åt gången
+  private refreshTripUpdatesIfStale(): Promise<void> {
+    if (Date.now() - this.tripUpdatesFetchedAt < TRIP_UPDATES_MAX_AGE) return Promise.resolve();
+    if (!this.tripUpdatesRefresh) {
+        this.tripUpdatesRefresh = (async () => {
+            try {
+                const res = await fetch(RT_TRIP_UPDATES_URL);
+                if (!res.ok) return;
+                this.decodeTripUpdates(await res.arrayBuffer());
+            } catch (e) {
+                console.warn("Kunde inte uppdatera TripUpdates:", e);
+            }
+        })().finally(() => { this.tripUpdatesRefresh = null; });
+    }
+    return this.tripUpdatesRefresh;
+  }
+
+  private async getScheduledDepartures(stopId: string): Promise<ScheduledDepartureEntry[]> {
+    const cached = this.departuresCache.get(stopId);
+    if (cached) return cached;
+    try {
+        const res = await fetch(this.dataUrl(`departures/${stopId}.json`, this.manifest?.files['departures']));
+        if (!res.ok || !this.isJson(res)) return [];
+        const departures: ScheduledDepartureEntry[] = await res.json();
+        this.departuresCache.set(stopId, departures);
+        return departures;
+    } catch (e) {
         return [];
     }
   }
-  
-  private async getRTRoot() {
-    if (this.rtRoot) return this.rtRoot;
-    this.rtRoot = await protobuf.parse(`
-      syntax = "proto2";
-      package transit_realtime;
-      message FeedMessage { required FeedHeader header = 1; repeated FeedEntity entity = 2; }
-      message FeedHeader { required string gtfs_realtime_version = 1; optional Incrementality incrementality = 2 [default = FULL_DATASET]; optional uint64 timestamp = 3; enum Incrementality { FULL_DATASET = 0; DIFFERENTIAL = 1; } }
-      message FeedEntity { required string id = 1; optional bool is_deleted = 2 [default = false]; optional TripUpdate trip_update = 3; optional VehiclePosition vehicle = 4; optional Alert alert = 5; }
-      message VehiclePosition { optional TripDescriptor trip = 1; optional VehicleDescriptor vehicle = 8; optional Position position = 2; optional uint64 timestamp = 5; }
-      message TripUpdate { optional TripDescriptor trip = 1; repeated StopTimeUpdate stop_time_update = 2; }
-      message StopTimeUpdate { optional uint32 stop_sequence = 1; optional string stop_id = 4; optional StopTimeEvent arrival = 2; optional StopTimeEvent departure = 3; }
-      message StopTimeEvent { optional int32 delay = 1; optional int64 time = 2; optional int32 uncertainty = 3; }
-      message TripDescriptor { optional string trip_id = 1; optional string route_id = 5; optional uint32 direction_id = 6; }
-      message VehicleDescriptor { optional string id = 1; optional string label = 2; optional string license_plate = 3; }
-      message Position { required float latitude = 1; required float longitude = 2; optional float bearing = 3; optional float speed = 5; }
-      message Alert {}
-    `).root;
-    return this.rtRoot;
+
+  // Avgångstavla för en hållplats: tidtabell kombinerad med prognoser från TripUpdates
+  async getStopDepartures(stopId: string, limit = 12): Promise<StopDeparture[]> {
+    if (!this.isInitialized) await this.initialize();
+
+    const [scheduled] = await Promise.all([
+        this.getScheduledDepartures(stopId),
+        this.refreshTripUpdatesIfStale()
+    ]);
+    if (scheduled.length === 0) return [];
+
+    return buildStopDepartures(stopId, scheduled, {
+        now: Date.now(),
+        tripUpdates: this.tripUpdates,
+        routeDirections: this.routeDirections,
+        runsOn: (serviceId, day) => this.runsOn(serviceId, day)
+    }, limit);
   }
 }
 
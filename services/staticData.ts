@@ -0,0 +1,47 @@
+// Manifestet som scripts/process-gtfs.mjs skriver till public/data/manifest.json.
+// Används både av klienten (slService) och av serverless-funktionerna.
+
+export interface LineManifestEntry {
+    id: string;
+    line: string;
+    description: string;
+    route_type?: number; // GTFS route_type (inkl. utökade typer, t.ex. 700 = buss)
+    from: string;
+    to: string;
+    hash?: string; // innehållshash för lines/<id>.json
+}
+
+export interface FeedInfo {
+    publisher?: string;
+    version?: string;
+    startDate?: string; // YYYYMMDD
+    endDate?: string;
+}
+
+export interface StaticDataManifest {
+    // Byts varje gång någon av datafilerna ändras. null för data från äldre pipeline.
+    version: string | null;
+    feed: FeedInfo | null;
+    generatedAt?: string;
+    files: Record<string, string>; // filnamn i public/data -> innehållshash
+    routes: LineManifestEntry[];
+}
+
+// Äldre manifest var bara en lista med linjer, utan version och hashar
+export function parseManifest(raw: any): StaticDataManifest {
+    if (Array.isArray(raw)) {
+        return { version: null, feed: null, files: {}, routes: raw };
+    }
+    return {
+        version: raw?.version ?? null,
+        feed: raw?.feed ?? null,
+        generatedAt: raw?.generatedAt,
+        files: raw?.files ?? {},
+        routes: Array.isArray(raw?.routes) ? raw.routes : []
+    };
+}
+
+// URL som ändras med innehållet och därför kan cachas för alltid (se vercel.json)
+export function versionedUrl(path: string, hash?: string | null) {
+    return hash ? `${path}?v=${encodeURIComponent(hash)}` : path;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { parseStop, isStation, getStationId, buildStation, groupLooseStops } from './stations';
+import { SLStop } from '../types';
+
+const stop = (id: string, name: string, lat: number, lng: number, extra: Partial<SLStop> = {}): SLStop =>
+    ({ id, name, lat, lng, lines: [], ...extra });
+
+describe('parseStop', () => {
+    it('läser GTFS-fälten för station och läge', () => {
+        const platform = parseStop({ id: '9022001010098002', name: 'Odenplan', lat: 59.3428, lng: 18.0496, lines: ['L4'], parent_station: '9021001010098000', platform_code: 'B' });
+        expect(platform).toEqual({ id: '9022001010098002', name: 'Odenplan', lat: 59.3428, lng: 18.0496, lines: ['L4'], parentStation: '9021001010098000', locationType: undefined, platformCode: 'B' });
+        expect(getStationId(platform)).toBe('9021001010098000');
+
+        const station = parseStop({ id: '9021001010098000', name: 'Odenplan', lat: 59.343, lng: 18.05, location_type: 1 });
+        expect(isStation(station)).toBe(true);
+        expect(getStationId(station)).toBe('9021001010098000');
+        expect(station.lines).toEqual([]);
+    });
+
+    it('ger inget stations-id för lösa hållplatser', () => {
+        expect(getStationId(parseStop({ id: '1', name: 'Skanstull', lat: 59.3, lng: 18.07 }))).toBeNull();
+    });
+});
+
+describe('buildStation', () => {
+    const platforms = [
+        stop('3', 'Odenplan', 59.3430, 18.0500, { platformCode: 'C', lines: ['L4', 'L72'] }),
+        stop('1', 'Odenplan', 59.3426, 18.0490, { platformCode: 'A', lines: ['L4'] }),
+        stop('2', 'Odenplan', 59.3428, 18.0496, { platformCode: 'B', lines: ['L2'] })
+    ];
+
+    it('använder stationsposten och samlar lägenas linjer', () => {
+        const parent = stop('S', 'Odenplan station', 59.3431, 18.0497, { locationType: 1, lines: ['L4'] });
+        const station = buildStation(platforms, parent);
+        expect(station).toMatchObject({ id: 'S', name: 'Odenplan station', lat: 59.3431, lng: 18.0497 });
+        expect(station.platforms.map(p => p.platformCode)).toEqual(['A', 'B', 'C']);
+        expect(station.lines.sort()).toEqual(['L2', 'L4', 'L72']);
+    });
+
+    it('lägger stationen mitt mellan lägena när stationsposten saknas', () => {
+        const station = buildStation(platforms);
+        expect(station.id).toBe('1');
+        expect(station.lat).toBeCloseTo(59.3428, 4);
+        expect(station.lng).toBeCloseTo(18.0495, 4);
+    });
+
+    it('sorterar lägesbeteckningar numeriskt', () => {
+        const station = buildStation([stop('b', 'T-Centralen', 59.33, 18.06, { platformCode: '10' }), stop('a', 'T-Centralen', 59.33, 18.06, { platformCode: '2' })]);
+        expect(station.platforms.map(p => p.platformCode)).toEqual(['2', '10']);
+    });
+});
+
+describe('groupLooseStops', () => {
+    it('slår ihop lägen med samma namn som ligger nära varandra', () => {
+        const groups = groupLooseStops([
+            stop('1', 'Skanstull', 59.3078, 18.0763),
+            stop('2', 'Skanstull', 59.3081, 18.0771),
+            stop('3', 'Gullmarsplan', 59.2990, 18.0809)
+        ]);
+        expect(groups.map(g => g.map(s => s.id))).toEqual([['1', '2'], ['3']]);
+    });
+
+    it('håller isär hållplatser med samma namn på olika orter', () => {
+        const groups = groupLooseStops([
+            stop('1', 'Centrum', 59.3078, 18.0763),
+            stop('2', 'Centrum', 59.6190, 17.7240)
+        ]);
+        expect(groups).toHaveLength(2);
+    });
+});
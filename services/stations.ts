@@ -0,0 +1,63 @@
+import { SLStop, SLStation } from '../types';
+import { getDistanceFromLatLonInM } from './routeGeometry';
+
+// Gruppering av hållplatslägen till stationer. Lägen med parent_station hör till den stationen.
+// Data utan parent_station (t.ex. från äldre pipeline) grupperas på namn och närhet istället.
+
+// Lägen med samma namn och utan station räknas som samma station inom det här avståndet
+const STATION_MERGE_DISTANCE_M = 400;
+
+// stops.json använder GTFS-namnen på fälten
+export function parseStop(raw: any): SLStop {
+    return {
+        id: raw.id,
+        name: raw.name,
+        lat: raw.lat,
+        lng: raw.lng,
+        lines: Array.isArray(raw.lines) ? raw.lines : [],
+        parentStation: raw.parent_station || undefined,
+        locationType: raw.location_type ?? undefined,
+        platformCode: raw.platform_code || undefined
+    };
+}
+
+export const isStation = (stop: SLStop) => stop.locationType === 1;
+
+// Id för stationen som läget hör till, eller null om läget inte har någon
+export const getStationId = (stop: SLStop) => isStation(stop) ? stop.id : stop.parentStation || null;
+
+const comparePlatforms = (a: SLStop, b: SLStop) =>
+    (a.platformCode || '').localeCompare(b.platformCode || '', 'sv', { numeric: true }) || a.id.localeCompare(b.id);
+
+export function buildStation(platforms: SLStop[], station?: SLStop | null): SLStation {
+    const sorted = [...platforms].sort(comparePlatforms);
+    const lines = new Set<string>(station?.lines);
+    sorted.forEach(p => p.lines.forEach(line => lines.add(line)));
+
+    // Utan stationspost hamnar markören mitt mellan lägena
+    const lat = station ? station.lat : sorted.reduce((sum, p) => sum + p.lat, 0) / sorted.length;
+    const lng = station ? station.lng : sorted.reduce((sum, p) => sum + p.lng, 0) / sorted.length;
+
+    return {
+        id: station?.id ?? sorted[0].id,
+        name: station?.name ?? sorted[0].name,
+        lat,
+        lng,
+        lines: Array.from(lines),
+        platforms: sorted
+    };
+}
+
+// Slår ihop lägen utan station som har samma namn och ligger nära varandra. Ordningen behålls.
+export function groupLooseStops(stops: SLStop[]): SLStop[][] {
+    const groups: SLStop[][] = [];
+    for (const stop of stops) {
+        const group = groups.find(g =>
+            g[0].name === stop.name &&
+            getDistanceFromLatLonInM(g[0].lat, g[0].lng, stop.lat, stop.lng) <= STATION_MERGE_DISTANCE_M
+        );
+        if (group) group.push(stop);
+        else groups.push([stop]);
+    }
+    return groups;
+}
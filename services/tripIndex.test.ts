@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { TripIndex, TripShard, getTripShardKey, getTripShardFile, decodeTripShard } from './tripIndex';
+
+describe('getTripShardKey', () => {
+    it('tar slutet av trip_id', () => {
+        expect(getTripShardKey('14010000668563458', 2)).toBe('58');
+        expect(getTripShardKey('14010000668563458', 3)).toBe('458');
+        expect(getTripShardFile(getTripShardKey('14010000668563458', 2))).toBe('trips/58.json');
+    });
+
+    it('fyller ut korta id:n så att nyckeln alltid har samma längd', () => {
+        expect(getTripShardKey('7', 2)).toBe('_7');
+        expect(getTripShardKey('', 2)).toBe('__');
+    });
+});
+
+describe('decodeTripShard', () => {
+    const index: TripIndex = {
+        keyLength: 2,
+        routes: ['9011001000400000', '9011001005000000'],
+        headsigns: ['', 'Radiohuset', 'Gullmarsplan'],
+        shards: ['58', '59']
+    };
+
+    it('slår upp linje och destination i indexets tabeller', () => {
+        const shard: TripShard = {
+            '14010000668563458': [0, 1],
+            '14010000668563558': [1, 2]
+        };
+        expect(decodeTripShard(index, shard)).toEqual({
+            '14010000668563458': { r: '9011001000400000', h: 'Radiohuset' },
+            '14010000668563558': { r: '9011001005000000', h: 'Gullmarsplan' }
+        });
+    });
+
+    it('ger tom destination när resan saknar en', () => {
+        expect(decodeTripShard(index, { '14010000668563459': [0, 0] })['14010000668563459']).toEqual({ r: '9011001000400000', h: '' });
+        expect(decodeTripShard(index, { '14010000668563459': [0, 9] })['14010000668563459'].h).toBe('');
+    });
+});
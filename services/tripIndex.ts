@@ -0,0 +1,33 @@
+import { TripMapEntry } from './vehicleBuilder';
+
+// Uppslag trip_id -> linje och destination, uppdelat i delfiler under public/data/trips
+// så att klienten bara behöver ladda de delar den faktiskt slår upp i.
+// Linjer och destinationer lagras en gång i index.json, delfilerna pekar in i de tabellerna.
+// Nyckeln måste räknas ut på samma sätt som i scripts/process-gtfs.mjs.
+
+export const TRIP_INDEX_FILE = 'trips/index.json';
+
+export interface TripIndex {
+    keyLength: number; // antal tecken från slutet av trip_id som bildar delfilens nyckel
+    routes: string[];
+    headsigns: string[];
+    shards: string[]; // nycklar som har en delfil
+}
+
+// trip_id -> [index i routes, index i headsigns]
+export type TripShard = Record<string, [number, number]>;
+
+// Slutet av id:t, eftersom början är gemensam för nästan alla SL:s resor
+export function getTripShardKey(tripId: string, keyLength: number) {
+    return tripId.slice(-keyLength).padStart(keyLength, '_');
+}
+
+export const getTripShardFile = (key: string) => `trips/${key}.json`;
+
+export function decodeTripShard(index: TripIndex, shard: TripShard): Record<string, TripMapEntry> {
+    const entries: Record<string, TripMapEntry> = {};
+    for (const [tripId, [routeIdx, headsignIdx]] of Object.entries(shard)) {
+        entries[tripId] = { r: index.routes[routeIdx], h: index.headsigns[headsignIdx] || '' };
+    }
+    return entries;
+}
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { decodeFeed } from './gtfsRealtime';
+import { parseTripUpdates, buildVehicles, VehicleLookups } from './vehicleBuilder';
+
+const fixture = (name: string) => decodeFeed(fs.readFileSync(path.join(__dirname, '__fixtures__', name)));
+
+const lookups: VehicleLookups = {
+    tripToRoute: {
+        '14010000668563458': { r: '9011001000400000', h: 'Radiohuset' },
+        '14010000668563459': { r: '9011001000400000', h: '' }
+    },
+    routeDirections: {
+        '9011001000400000': { '0': 'Radiohuset', '1': 'Gullmarsplan' }
+    },
+    stopNames: new Map([['9022001010051001', 'Skanstull']]),
+    routeModes: new Map([['9011001000400000', 'Buss']])
+};
+
+describe('parseTripUpdates', () => {
+    const tripInfo = parseTripUpdates(fixture('trip-updates.pb').entity);
+
+    it('tar förseningen från den första hållplatsen som trafikeras', () => {
+        const info = tripInfo.get('14010000668563458')!;
+        expect(info.delay).toBe(120);
+        expect(info.startDate).toBe('20251014');
+        expect(info.lastStopId).toBe('9022001010099001');
+    });
+
+    it('behåller överhoppade hållplatser utan tider', () => {
+        const stopTimes = tripInfo.get('14010000668563458')!.stopTimes;
+        expect(stopTimes).toHaveLength(3);
+        expect(stopTimes[0]).toMatchObject({ stopId: '9022001010097001', scheduleRelationship: 'SKIPPED', arrivalTime: undefined, departureTime: undefined });
+        expect(stopTimes[1]).toMatchObject({ arrivalTime: 1760438460000, departureTime: 1760438490000, arrivalDelay: 120, departureDelay: 150, delay: 150, uncertainty: 30 });
+    });
+
+    it('räknar inte en överhoppad sista hållplats som slutmål', () => {
+        expect(tripInfo.get('14010000668563461')!.lastStopId).toBe('9022001010051001');
+    });
+
+    it('markerar inställda resor', () => {
+        const info = tripInfo.get('14010000668563999')!;
+        expect(info.scheduleRelationship).toBe('CANCELED');
+        expect(info.stopTimes).toEqual([]);
+        expect(info.delay).toBeUndefined();
+    });
+});
+
+describe('buildVehicles', () => {
+    const tripInfo = parseTripUpdates(fixture('trip-updates.pb').entity);
+    const vehicles = buildVehicles(fixture('vehicle-positions.pb').entity, tripInfo, lookups);
+    const byId = new Map(vehicles.map(v => [v.id, v]));
+
+    it('hoppar över fordon utan känd linje', () => {
+        expect(vehicles).toHaveLength(5);
+        expect(byId.has('9031001004500006')).toBe(false);
+    });
+
+    it('räknar om hastighet och tidsstämplar', () => {
+        const v = byId.get('9031001004500001')!;
+        expect(v.speed).toBeCloseTo(30.6, 1);
+        expect(v.lastReport).toBe(1760438396000);
+        expect(v.vehicleNumber).toBe('4501');
+        expect(v.directionId).toBe(0);
+        expect(v.type).toBe('Buss');
+        // Fordonet står vid hållplats 7, där ankomstförseningen gäller
+        expect(v.delay).toBe(120);
+    });
+
+    it('tar destinationen från trip-indexet i första hand', () => {
+        expect(byId.get('9031001004500001')!.destination).toBe('Radiohuset');
+    });
+
+    it('faller tillbaka på linjens riktning när indexet saknar destination', () => {
+        expect(byId.get('9031001004500002')!.destination).toBe('Gullmarsplan');
+    });
+
+    it('hämtar linje och riktning från TripUpdate när VehiclePosition saknar dem', () => {
+        const v = byId.get('9031001004500003')!;
+        expect(v.line).toBe('9011001000400000');
+        expect(v.directionId).toBe(1);
+        expect(v.destination).toBe('Gullmarsplan');
+        expect(v.delay).toBe(-45);
+    });
+
+    it('använder sista hållplatsen i TripUpdate när riktning saknas', () => {
+        expect(byId.get('9031001004500004')!.destination).toBe('Skanstull');
+    });
+
+    it('visar Okänd när ingen destination går att hitta', () => {
+        const v = byId.get('9031001004500005')!;
+        expect(v.destination).toBe('Okänd');
+        expect(v.vehicleNumber).toBe('N/A');
+        expect(v.bearing).toBe(0);
+        expect(v.delay).toBeUndefined();
+    });
+});
@@ -0,0 +1,242 @@
+
+import { SLVehicle, TransportMode, VehicleDiff, StopTimePrediction, TripScheduleRelationship } from '../types';
+import { FeedEntity } from './gtfsRealtime';
+
+// Delad logik för att slå ihop VehiclePositions med TripUpdates och statisk data.
+// Används både av klienten (slService) och av serverless-funktionerna (api/vehicles).
+
+export interface TripMapEntry {
+  r: string; // route_id
+  h: string; // headsign
+}
+
+// Map: RouteID -> DirectionID -> Headsign
+export interface RouteDirectionMap {
+    [routeId: string]: {
+        [directionId: string]: string;
+    }
+}
+
+export interface TripUpdateInfo {
+    delay?: number;
+    directionId?: number;
+    routeId?: string;
+    lastStopId?: string;
+    startTime?: string; // HH:MM:SS
+    startDate?: string; // YYYYMMDD
+    scheduleRelationship?: TripScheduleRelationship;
+    stopTimes: StopTimePrediction[];
+}
+
+export interface VehicleLookups {
+    tripToRoute: Record<string, TripMapEntry> | null;
+    routeDirections: RouteDirectionMap | null;
+    stopNames: Map<string, string>;
+    routeModes: Map<string, TransportMode>;
+    // route_id -> linjenummer, laddas bara på servern
+    routeNames?: Map<string, string>;
+}
+
+// Översätt GTFS route_type (standard och utökade typer) till trafikslag.
+// Äldre datafiler saknar route_type, då gissar vi utifrån SL:s linjenummer.
+export function getTransportMode(routeType?: number, lineName?: string): TransportMode {
+    if (routeType !== undefined && routeType !== null && !isNaN(routeType)) {
+        if (routeType === 0 || (routeType >= 900 && routeType < 1000)) return 'Spårvagn';
+        if (routeType === 1 || (routeType >= 400 && routeType < 500)) return 'Tunnelbana';
+        if (routeType === 109) return 'Pendeltåg';
+        if (routeType === 2 || (routeType >= 100 && routeType < 200)) return 'Tåg';
+        if (routeType === 4 || (routeType >= 1000 && routeType < 1300)) return 'Båt';
+        return 'Buss';
+    }
+
+    const name = (lineName || '').trim();
+    // Om linjen innehåller bokstäver (t.ex. 25M) är det en buss
+    if (!name || /[a-zA-Z]/.test(name)) return 'Buss';
+    const num = parseInt(name);
+    if (isNaN(num)) return 'Buss';
+    if ([10, 11, 13, 14, 17, 18, 19].includes(num)) return 'Tunnelbana';
+    if ([7, 12, 21, 25, 26, 27, 28, 29, 30, 31].includes(num)) return 'Spårvagn';
+    if ([40, 41, 42, 43, 44, 48].includes(num)) return 'Pendeltåg';
+    if ([80, 82, 83, 84, 89].includes(num)) return 'Båt';
+    return 'Buss';
+}
+
+// Reducera TripUpdates-entiteter till en map per trip_id
+export function parseTripUpdates(updateEntities: FeedEntity[]): Map<string, TripUpdateInfo> {
+    const tripInfoMap: Map<string, TripUpdateInfo> = new Map();
+
+    for (const e of updateEntities) {
+        if (e.tripUpdate && e.tripUpdate.trip) {
+            const { tripId, routeId, directionId, startTime, startDate, scheduleRelationship } = e.tripUpdate.trip;
+
+            if (tripId) {
+                let delay = undefined;
+                let lastStopId = undefined;
+                const updates = e.tripUpdate.stopTimeUpdate || [];
+
+                // Överhoppade hållplatser saknar tider, så förseningen tas från de som trafikeras
+                const servedUpdates = updates.filter(u => u.scheduleRelationship !== 'SKIPPED');
+                if (servedUpdates.length > 0) {
+                    const firstUpdate = servedUpdates[0];
+                    delay = firstUpdate.arrival?.delay ?? firstUpdate.departure?.delay;
+                    lastStopId = servedUpdates[servedUpdates.length - 1].stopId;
+                }
+
+                const stopTimes: StopTimePrediction[] = updates.map(u => ({
+                    stopId: u.stopId,
+                    stopSequence: u.stopSequence,
+                    arrivalTime: u.arrival?.time ? u.arrival.time * 1000 : undefined,
+                    departureTime: u.departure?.time ? u.departure.time * 1000 : undefined,
+                    arrivalDelay: u.arrival?.delay,
+                    departureDelay: u.departure?.delay,
+                    delay: u.departure?.delay ?? u.arrival?.delay,
+                    uncertainty: u.arrival?.uncertainty ?? u.departure?.uncertainty,
+                    scheduleRelationship: u.scheduleRelationship
+                }));
+
+                tripInfoMap.set(tripId, { delay, directionId, routeId, lastStopId, startTime, startDate, scheduleRelationship, stopTimes });
+            }
+        }
+    }
+
+    return tripInfoMap;
+}
+
+// Förseningen vid den hållplats fordonet är på väg till (eller står vid). Finns ingen
+// hållplats angiven i VehiclePosition används den första kommande prognosen i tid.
+export function getCurrentDelay(info: TripUpdateInfo, now: number, stopId?: string, stopSequence?: number): number | undefined {
+    const served = info.stopTimes.filter(st => st.scheduleRelationship !== 'SKIPPED');
+    if (served.length === 0) return info.delay;
+
+    let current = (stopSequence !== undefined || stopId)
+        ? served.find(st => (stopSequence !== undefined && st.stopSequence === stopSequence) || (!!stopId && st.stopId === stopId))
+        : undefined;
+
+    if (!current) {
+        current = served.find(st => (st.departureTime ?? st.arrivalTime ?? 0) >= now) || served[served.length - 1];
+    }
+
+    return current.arrivalDelay ?? current.delay ?? info.delay;
+}
+
+// Bygg SLVehicle-objekt från VehiclePositions-entiteter
+export function buildVehicles(posEntities: FeedEntity[], tripInfoMap: Map<string, TripUpdateInfo>, lookups: VehicleLookups): SLVehicle[] {
+    const allVehicles: SLVehicle[] = [];
+    for (const e of posEntities) {
+        const v = e.vehicle;
+        if (!v || !v.position || !v.trip) continue;
+
+        const tripId = v.trip.tripId;
+        if (!tripId) continue;
+
+        let routeId = v.trip.routeId;
+        let directionId = v.trip.directionId;
+
+        const info = tripInfoMap.get(tripId);
+        if (info) {
+            if (directionId === undefined || directionId === null) directionId = info.directionId;
+            if (!routeId) routeId = info.routeId;
+        }
+
+        let headsign = "Okänd";
+
+        if (lookups.tripToRoute && lookups.tripToRoute[tripId]) {
+            const mapEntry = lookups.tripToRoute[tripId];
+            if (!routeId) routeId = mapEntry.r;
+            if (mapEntry.h) headsign = mapEntry.h;
+        }
+
+        if ((!headsign || headsign === "Okänd") && routeId && directionId !== undefined && directionId !== null && lookups.routeDirections) {
+            const dirStr = String(directionId);
+            const fallbackHeadsign = lookups.routeDirections[routeId]?.[dirStr];
+            if (fallbackHeadsign) {
+                headsign = fallbackHeadsign;
+            }
+        }
+
+        if ((!headsign || headsign === "Okänd") && info?.lastStopId) {
+            const stopName = lookups.stopNames.get(info.lastStopId);
+            if (stopName) {
+                headsign = stopName;
+            }
+        }
+
+        if (!routeId) continue;
+
+        allVehicles.push({
+            id: v.vehicle?.id || e.id,
+            line: routeId,
+            tripId: tripId,
+            directionId: directionId ?? undefined,
+            operator: "SL / Entreprenör",
+            vehicleNumber: v.vehicle?.label || "N/A",
+            lat: v.position.latitude,
+            lng: v.position.longitude,
+            bearing: v.position.bearing || 0,
+            speed: (v.position.speed || 0) * 3.6,
+            destination: headsign,
+            type: lookups.routeModes.get(routeId) || "Buss",
+            delay: info ? getCurrentDelay(info, v.timestamp ? v.timestamp * 1000 : Date.now(), v.stopId, v.currentStopSequence) : undefined,
+            lastReport: v.timestamp ? v.timestamp * 1000 : undefined,
+            scheduleRelationship: v.trip.scheduleRelationship ?? info?.scheduleRelationship
+        });
+    }
+    return allVehicles;
+}
+
+// Matcha vagnsnummer mot label eller slutet av fordons-id
+export function matchesVehicleNumber(vehicle: SLVehicle, vehicleNumber: string): boolean {
+    const target = vehicleNumber.trim();
+    if (!target) return false;
+    return String(vehicle.vehicleNumber).trim() === target || String(vehicle.id).trim().endsWith(target);
+}
+
+export interface VehicleFilter {
+    bbox?: [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+    routeId?: string;
+    tripId?: string;
+    vehicle?: string; // vagnsnummer
+    limit?: number;
+}
+
+export function filterVehicles(vehicles: SLVehicle[], filter: VehicleFilter): SLVehicle[] {
+    let result = vehicles;
+    if (filter.routeId) result = result.filter(v => v.line === filter.routeId);
+    if (filter.tripId) result = result.filter(v => v.tripId === filter.tripId);
+    if (filter.vehicle) result = result.filter(v => matchesVehicleNumber(v, filter.vehicle as string));
+    if (filter.bbox) {
+        const [minLng, minLat, maxLng, maxLat] = filter.bbox;
+        result = result.filter(v => v.lng >= minLng && v.lng <= maxLng && v.lat >= minLat && v.lat <= maxLat);
+    }
+    if (filter.limit !== undefined) result = result.slice(0, Math.max(0, filter.limit));
+    return result;
+}
+
+// Beräkna vilka fordon som tillkommit, flyttats (eller fått ny försening) och försvunnit
+export function diffVehicles(prev: SLVehicle[], next: SLVehicle[], total: number, timestamp: number, feedTimestamp?: number): VehicleDiff {
+    const prevById = new Map(prev.map(v => [v.id, v]));
+    const nextIds = new Set<string>();
+    const added: SLVehicle[] = [];
+    const moved: SLVehicle[] = [];
+
+    for (const v of next) {
+        nextIds.add(v.id);
+        const old = prevById.get(v.id);
+        if (!old) {
+            added.push(v);
+        } else if (old.lat !== v.lat || old.lng !== v.lng || old.bearing !== v.bearing || old.delay !== v.delay || old.tripId !== v.tripId || old.lastReport !== v.lastReport || old.scheduleRelationship !== v.scheduleRelationship) {
+            moved.push(v);
+        }
+    }
+
+    const removed = prev.filter(v => !nextIds.has(v.id)).map(v => v.id);
+    return { added, moved, removed, total, timestamp, feedTimestamp };
+}
+
+export function applyVehicleDiff(current: Map<string, SLVehicle>, diff: VehicleDiff): Map<string, SLVehicle> {
+    const next = new Map(current);
+    diff.removed.forEach(id => next.delete(id));
+    diff.added.forEach(v => next.set(v.id, v));
+    diff.moved.forEach(v => next.set(v.id, v));
+    return next;
+}
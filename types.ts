@@ -1,16 +1,31 @@
+export type TransportMode = 'Buss' | 'Tunnelbana' | 'Spårvagn' | 'Pendeltåg' | 'Tåg' | 'Båt';
 
 export interface SLStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  lines: string[]; // route_id för linjerna som trafikerar hållplatsen
+  parentStation?: string; // stationen som läget hör till (GTFS parent_station)
+  locationType?: number; // GTFS location_type, 1 = station
+  platformCode?: string; // lägesbeteckning, t.ex. "A"
+}
+
+// En station med alla sina lägen. Hållplatser utan station blir en station med ett läge.
+export interface SLStation {
   id: string;
   name: string;
   lat: number;
   lng: number;
   lines: string[];
+  platforms: SLStop[];
 }
 
 export interface SLVehicle {
   id: string;
   line: string; // Detta kommer vara route_id
   tripId: string;
+  directionId?: number; // GTFS direction_id (0/1)
   operator: string;
   vehicleNumber: string;
   lat: number;
@@ -18,14 +33,44 @@ export interface SLVehicle {
   bearing: number;
   speed: number;
   destination: string;
-  type: 'Buss' | 'Tåg' | 'Tunnelbana' | 'Spårvagn';
+  type: TransportMode;
   delay?: number; // Försening i sekunder
+  lastReport?: number; // När fordonet senast rapporterade sin position (ms sedan epoch)
+  scheduleRelationship?: TripScheduleRelationship; // ADDED = extratur utanför tidtabellen
+}
+
+// GTFS-RT TripDescriptor.ScheduleRelationship
+export type TripScheduleRelationship = 'SCHEDULED' | 'ADDED' | 'UNSCHEDULED' | 'CANCELED' | 'REPLACEMENT' | 'DUPLICATED' | 'DELETED';
+
+// GTFS-RT StopTimeUpdate.ScheduleRelationship
+export type StopScheduleRelationship = 'SCHEDULED' | 'SKIPPED' | 'NO_DATA' | 'UNSCHEDULED';
+
+// En riktning/körvägsvariant av en linje (egen form eller hållplatsföljd)
+export interface SLLineVariant {
+  id: string;
+  directionId: number | null;
+  headsign: string;
+  trip_ids: string[];
+  path: [number, number][];
+  stops: SLStop[];
+}
+
+// Trafikdygn och tidsspann för en resa, sekunder efter trafikdygnets midnatt
+export interface TripSchedule {
+  serviceId: string;
+  start: number | null;
+  end: number | null;
 }
 
 export interface SLLineRoute {
   id: string; // route_id
   line: string; // short name, t.ex. "191"
-  trip_ids: string[];
+  mode: TransportMode;
+  trip_ids: string[]; // linjens alla resor, oavsett variant
+  // trip_id -> trafikdygn och tidsspann. Saknas för data utan trafikkalender.
+  schedule?: Record<string, TripSchedule>;
+  variants: SLLineVariant[];
+  variantId: string; // varianten som visas, path och stops hör till den
   path: [number, number][];
   stops: SLStop[];
 }
@@ -35,6 +80,8 @@ export interface SearchResult {
   id: string;
   title: string;
   subtitle?: string;
+  mode?: TransportMode; // endast för linjer
+  platforms?: SearchResult[]; // endast för stationer med flera lägen
 }
 
 export interface HistoryPoint {
@@ -42,4 +89,142 @@ export interface HistoryPoint {
   lng: number;
   ts: number;
   delay?: number;
+  directionId?: number;
+  bearing?: number;
+  speed?: number; // km/h
+}
+
+// En resas passage av en hållplats, framräknad vid insamlingen (api/passages)
+export interface StopPassage {
+  tripId: string;
+  stopId: string;
+  stopName: string;
+  line: string;
+  vehicleId: string;
+  arrival: number; // ms sedan epoch
+  departure: number; // ms sedan epoch
+  dwell: number; // sekunder
+  delay?: number | null; // sekunder, vid ankomsten
+}
+
+// En resas spår i ett uppspelningsfönster (api/replay)
+export interface ReplayTrip {
+  tripId: string;
+  vehicleId: string;
+  path: HistoryPoint[];
+}
+
+// Avstånd mellan två på varandra följande fordon på samma linje och i samma riktning
+export type HeadwayStatus = 'bunched' | 'normal' | 'gap';
+
+export interface HeadwayGap {
+  vehicleId: string; // fordonet framför respektive bakom
+  distance: number; // meter längs linjen
+  time: number; // uppskattad tid i sekunder
+  status: HeadwayStatus;
+}
+
+export interface VehicleHeadway {
+  ahead?: HeadwayGap;
+  behind?: HeadwayGap;
+}
+
+// En av resorna ett fordon kört under dagen (api/vehicle-history)
+export interface VehicleDayTrip {
+  tripId: string;
+  routeId?: string;
+  line?: string; // linjenummer, t.ex. "4"
+  headsign: string;
+  start: number;
+  end: number;
+  path: HistoryPoint[];
+}
+
+// Punktlighet för en linje (api/stats/line). Förseningar i sekunder.
+export interface PunctualitySummary {
+  trips: number;
+  onTime: number;
+  late: number;
+  early: number;
+  medianDelay: number | null;
+  p90Delay: number | null;
+}
+
+export interface PunctualityBucket extends PunctualitySummary {
+  start: number; // ms sedan epoch
+}
+
+export interface LineStats {
+  routeId: string;
+  from: number;
+  to: number;
+  bucketMinutes: number;
+  total: PunctualitySummary;
+  buckets: PunctualityBucket[];
+}
+
+export interface AlertActivePeriod {
+  start?: number; // ms sedan epoch
+  end?: number;
+}
+
+export interface ServiceAlert {
+  id: string;
+  header: string;
+  description: string;
+  cause: string; // GTFS-RT Cause, t.ex. "CONSTRUCTION"
+  effect: string; // GTFS-RT Effect, t.ex. "DETOUR"
+  url?: string;
+  routeIds: string[];
+  stopIds: string[];
+  activePeriods: AlertActivePeriod[];
+}
+
+// Prognos för en hållplats på en resa (GTFS-RT StopTimeUpdate)
+export interface StopTimePrediction {
+  stopId?: string;
+  stopSequence?: number;
+  arrivalTime?: number; // ms sedan epoch
+  departureTime?: number; // ms sedan epoch
+  arrivalDelay?: number; // sekunder
+  departureDelay?: number; // sekunder
+  delay?: number; // sekunder, avgång i första hand
+  uncertainty?: number; // sekunder
+  scheduleRelationship?: StopScheduleRelationship; // SKIPPED = fordonet stannar inte här
+}
+
+// En resa som är inställd enligt TripUpdates
+export interface CancelledTrip {
+  tripId: string;
+  routeId: string;
+  headsign: string;
+  startTime?: number; // ms sedan epoch
+}
+
+export interface StopDeparture {
+  tripId: string;
+  routeId: string;
+  headsign: string;
+  scheduled: number; // ms sedan epoch
+  predicted?: number; // ms sedan epoch, från TripUpdates
+  delay?: number; // sekunder
+  isRealtime: boolean;
+  isCancelled?: boolean; // resan är inställd eller hållplatsen passeras utan stopp
+}
+
+export interface LiveSnapshot {
+  vehicles: SLVehicle[];
+  total: number; // antal fordon i trafik innan filtrering
+  timestamp: number;
+  feedTimestamp?: number; // FeedHeader.timestamp för VehiclePositions (ms sedan epoch)
+}
+
+// Ändringar i fordonsläget sedan förra meddelandet i live-strömmen
+export interface VehicleDiff {
+  added: SLVehicle[];
+  moved: SLVehicle[];
+  removed: string[]; // fordons-id
+  total: number;
+  timestamp: number;
+  feedTimestamp?: number;
 }